@@ -0,0 +1,118 @@
+// Times GPTTokenizer.encode on long unbroken inputs against the previous
+// string-pair merge loop it replaced, which rebuilt every pair after each merge.
+//
+// Usage: tsx scripts/bench-bpe.ts [length ...] (default: 100000)
+//
+// Inputs are printable ASCII without whitespace, whose byte-level characters
+// are the characters themselves, so the baseline needs no byte mapping.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { cl100k_base } from '../src/tokenizer/encodings';
+import { GPTTokenizer } from '../src/tokenizer/gpt-tokenizer';
+import { parseMerges } from '../src/tokenizer/loader';
+
+const dataDir = join(__dirname, '..', 'public', 'tokenizer', cl100k_base.name);
+const vocab: Record<string, number> = JSON.parse(readFileSync(join(dataDir, 'vocab.json'), 'utf8'));
+const merges = parseMerges(readFileSync(join(dataDir, 'merges.txt'), 'utf8'));
+
+function legacyEncoder() {
+  const ranks: Record<string, number> = {};
+  merges.forEach((merge, index) => {
+    ranks[merge] = index;
+  });
+
+  const bpe = (token: string): string[] => {
+    let word = [...token];
+
+    while (word.length > 1) {
+      const pairs: string[] = [];
+      for (let i = 0; i < word.length - 1; i++) {
+        pairs.push(`${word[i]} ${word[i + 1]}`);
+      }
+
+      let minPair: string | null = null;
+      let minRank = Infinity;
+      for (const pair of pairs) {
+        const rank = ranks[pair];
+        if (rank !== undefined && rank < minRank) {
+          minRank = rank;
+          minPair = pair;
+        }
+      }
+
+      if (minPair === null) break;
+
+      const [first, second] = minPair.split(' ');
+      const newWord: string[] = [];
+      let i = 0;
+
+      while (i < word.length) {
+        const j = word.indexOf(first, i);
+        if (j === -1) {
+          newWord.push(...word.slice(i));
+          break;
+        }
+
+        newWord.push(...word.slice(i, j));
+        if (j + 1 < word.length && word[j + 1] === second) {
+          newWord.push(first + second);
+          i = j + 2;
+        } else {
+          newWord.push(word[j]);
+          i = j + 1;
+        }
+      }
+      word = newWord;
+    }
+
+    return word;
+  };
+
+  return (text: string) =>
+    Array.from(text.matchAll(cl100k_base.pattern)).flatMap(match => bpe(match[0]).map(token => vocab[token]));
+}
+
+function randomText(alphabet: string, length: number): string {
+  let seed = 42;
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    text += alphabet[seed % alphabet.length];
+  }
+  return text;
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+const inputs: Record<string, string> = {
+  letters: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  base64: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789+/',
+  punctuation: '=-_*#~.;:,!?()[]{}<>'
+};
+
+const lengths = process.argv.slice(2).map(Number).filter(Boolean);
+const tokenizer = new GPTTokenizer({ vocab, merges }, cl100k_base);
+const legacyEncode = legacyEncoder();
+
+for (const length of lengths.length ? lengths : [100_000]) {
+  for (const [name, alphabet] of Object.entries(inputs)) {
+    const text = randomText(alphabet, length);
+    const current = time(() => tokenizer.encode(text));
+    const legacy = time(() => legacyEncode(text));
+
+    if (current.result.join() !== legacy.result.join()) {
+      throw new Error(`Token mismatch on ${name} input of ${length} characters`);
+    }
+
+    console.log(
+      `${name.padEnd(12)} ${String(length).padStart(8)} chars ${String(current.result.length).padStart(8)} tokens` +
+        `  heap ${current.ms.toFixed(0).padStart(7)} ms  legacy ${legacy.ms.toFixed(0).padStart(8)} ms` +
+        `  x${(legacy.ms / current.ms).toFixed(1)}`
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// Builds the compact `tokenizer.bin` asset of each encoding from its
+// `vocab.json` + `merges.txt` pair. See src/tokenizer/binary.ts for the layout.
+//
+// Usage: tsx scripts/build-binary.ts [encoding ...] (default: all encodings)
+
+import { readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseTokenizerBinary, serializeTokenizerData } from '../src/tokenizer/binary';
+import { encodings, isEncodingName } from '../src/tokenizer/encodings';
+import { parseMerges } from '../src/tokenizer/loader';
+
+const publicDir = join(__dirname, '..', 'public');
+const names = process.argv.slice(2);
+
+for (const name of names.length ? names : Object.keys(encodings)) {
+  if (!isEncodingName(name)) {
+    console.error(`Unknown encoding: ${name}`);
+    process.exit(1);
+  }
+
+  const { files } = encodings[name];
+  const vocabPath = join(publicDir, files.vocab);
+  const mergesPath = join(publicDir, files.merges);
+  const binaryPath = join(publicDir, files.binary);
+
+  const vocab: Record<string, number> = JSON.parse(readFileSync(vocabPath, 'utf8'));
+  const merges = parseMerges(readFileSync(mergesPath, 'utf8'));
+  const binary = serializeTokenizerData({ vocab, merges }, encodings[name]);
+
+  // Refuse to write an asset that does not round-trip
+  const { data } = parseTokenizerBinary(binary.slice().buffer);
+  if (data.merges.join('\n') !== merges.join('\n')) {
+    throw new Error(`${name}: merges do not round-trip`);
+  }
+
+  writeFileSync(binaryPath, binary);
+
+  const sourceSize = statSync(vocabPath).size + statSync(mergesPath).size;
+  console.log(
+    `${name}: ${(sourceSize / 1024).toFixed(0)} KB -> ${(binary.length / 1024).toFixed(0)} KB`
+  );
+}
@@ -0,0 +1,84 @@
+// Converts a tiktoken rank file (`<base64 token> <rank>` per line) into the
+// byte-level `vocab.json` + `merges.txt` pair loaded by GPTTokenizer.
+//
+// Usage: tsx scripts/tiktoken-to-bpe.ts <input.tiktoken> <output-dir>
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { bytesToUnicode } from '../src/tokenizer/bytes';
+
+// Replays tiktoken's merge loop on `bytes` using only ranks below `maxRank`.
+// For a well-formed rank file this always ends with exactly two parts, which
+// form the merge rule that produced the token.
+function splitToken(bytes: Buffer, ranks: Map<string, number>, maxRank: number): Buffer[] {
+  let parts = Array.from(bytes, b => Buffer.from([b]));
+
+  while (parts.length > 2) {
+    let minRank = Infinity;
+    let minIndex = -1;
+
+    for (let i = 0; i < parts.length - 1; i++) {
+      const rank = ranks.get(Buffer.concat([parts[i], parts[i + 1]]).toString('latin1'));
+      if (rank !== undefined && rank < maxRank && rank < minRank) {
+        minRank = rank;
+        minIndex = i;
+      }
+    }
+
+    if (minIndex === -1) break;
+    parts = [
+      ...parts.slice(0, minIndex),
+      Buffer.concat([parts[minIndex], parts[minIndex + 1]]),
+      ...parts.slice(minIndex + 2)
+    ];
+  }
+
+  return parts;
+}
+
+function main() {
+  const [input, outDir] = process.argv.slice(2);
+  if (!input || !outDir) {
+    console.error('Usage: tsx scripts/tiktoken-to-bpe.ts <input.tiktoken> <output-dir>');
+    process.exit(1);
+  }
+
+  const entries = readFileSync(input, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const [token, rank] = line.split(' ');
+      return { bytes: Buffer.from(token, 'base64'), rank: Number(rank) };
+    })
+    .sort((a, b) => a.rank - b.rank);
+
+  const ranks = new Map<string, number>();
+  for (const { bytes, rank } of entries) {
+    ranks.set(bytes.toString('latin1'), rank);
+  }
+
+  const byteEncoder = bytesToUnicode();
+  const encodeBytes = (bytes: Buffer) => Array.from(bytes, b => byteEncoder[b]).join('');
+
+  const vocab: Record<string, number> = {};
+  const merges: string[] = [];
+
+  for (const { bytes, rank } of entries) {
+    vocab[encodeBytes(bytes)] = rank;
+    if (bytes.length < 2) continue;
+
+    const parts = splitToken(bytes, ranks, rank);
+    if (parts.length !== 2) {
+      throw new Error(`Token with rank ${rank} cannot be built from a single merge`);
+    }
+    merges.push(`${encodeBytes(parts[0])} ${encodeBytes(parts[1])}`);
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'vocab.json'), JSON.stringify(vocab, null, 2));
+  writeFileSync(join(outDir, 'merges.txt'), ['#version: 0.2', ...merges].join('\n'));
+
+  console.log(`Wrote ${entries.length} tokens and ${merges.length} merges to ${outDir}`);
+}
+
+main();
@@ -0,0 +1,210 @@
+// Command-line tokenizer for shell scripts and pre-commit hooks. Loads the
+// byte-level `vocab.json` + `merges.txt` pair of an encoding from disk.
+//
+// Usage: tsx scripts/tokenizer.ts <encode|decode|count|tokens> [options] [file ...]
+//
+// Reads stdin when no file (or `-`) is given. Each file is tokenized on its
+// own, so counts never depend on how files are concatenated. Inputs are
+// data, so special token text such as `<|endoftext|>` is ordinary text.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { encodings, getEncodingNameForModel, isEncodingName } from '../src/tokenizer/encodings';
+import { GPTTokenizer, ordinaryText } from '../src/tokenizer/gpt-tokenizer';
+import { parseMerges } from '../src/tokenizer/loader';
+
+const usage = `Usage: tsx scripts/tokenizer.ts <command> [options] [file ...]
+
+Commands:
+  encode    Print the token IDs of the text
+  decode    Print the text of token IDs, given as a JSON array or separated by
+            commas or whitespace
+  count     Print the number of tokens
+  tokens    Print each token ID with the text it covers
+
+Options:
+  -e, --encoding <name>   Encoding to use (default: cl100k_base)
+  -m, --model <name>      Use the encoding of a model instead
+      --data-dir <dir>    Directory holding vocab.json and merges.txt
+                          (default: public/tokenizer/<encoding>)
+      --max <tokens>      count: exit with status 1 if any input is longer
+      --json              Print JSON instead of plain text
+  -h, --help              Show this help
+
+Reads stdin when no file is given.`;
+
+const commands = ['encode', 'decode', 'count', 'tokens'] as const;
+type Command = (typeof commands)[number];
+
+interface Input {
+  // null for stdin
+  file: string | null;
+  text: string;
+}
+
+function fail(message: string): never {
+  console.error(`tokenizer: ${message}`);
+  process.exit(2);
+}
+
+function readInputs(files: string[]): Input[] {
+  if (files.length === 0) files = ['-'];
+
+  return files.map(file => {
+    try {
+      return file === '-'
+        ? { file: null, text: readFileSync(0, 'utf8') }
+        : { file, text: readFileSync(file, 'utf8') };
+    } catch (err) {
+      fail(`cannot read ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  });
+}
+
+function parseTokenIds(text: string, file: string | null, tokenizer: GPTTokenizer): number[] {
+  const trimmed = text.trim();
+  let values: unknown;
+  try {
+    values = trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed.split(/[\s,]+/).filter(Boolean).map(Number);
+  } catch {
+    fail(`${file ?? 'stdin'}: token IDs are not a valid JSON array`);
+  }
+
+  if (!Array.isArray(values) || !values.every(value => Number.isInteger(value) && (value as number) >= 0)) {
+    fail(`${file ?? 'stdin'}: token IDs must be non-negative integers`);
+  }
+  // decode() would skip them and print partial text
+  const unknown = (values as number[]).find(id => !tokenizer.isValidTokenId(id));
+  if (unknown !== undefined) {
+    fail(`${file ?? 'stdin'}: ${unknown} is not a token ID of ${tokenizer.encodingName}`);
+  }
+  return values as number[];
+}
+
+function loadTokenizer(encoding: string, dataDir: string | undefined): GPTTokenizer {
+  if (!isEncodingName(encoding)) {
+    fail(`unknown encoding: ${encoding}. Expected one of ${Object.keys(encodings).join(', ')}`);
+  }
+
+  const dir = dataDir ?? join(__dirname, '..', 'public', 'tokenizer', encoding);
+  try {
+    const vocab: Record<string, number> = JSON.parse(readFileSync(join(dir, 'vocab.json'), 'utf8'));
+    const merges = parseMerges(readFileSync(join(dir, 'merges.txt'), 'utf8'));
+    return new GPTTokenizer({ vocab, merges }, encodings[encoding]);
+  } catch (err) {
+    fail(`cannot load ${encoding} from ${dir}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+interface Result {
+  json: object;
+  lines: string[];
+  // Set by count
+  tokenCount?: number;
+}
+
+// Result of one command on one input, as JSON and as plain text lines
+function run(tokenizer: GPTTokenizer, command: Command, input: Input): Result {
+  switch (command) {
+    case 'encode': {
+      const tokenIds = tokenizer.encode(input.text, ordinaryText);
+      return { json: { tokenIds }, lines: [tokenIds.join(' ')] };
+    }
+    case 'decode': {
+      const text = tokenizer.decode(parseTokenIds(input.text, input.file, tokenizer));
+      return { json: { text }, lines: [text] };
+    }
+    case 'count': {
+      const tokenCount = tokenizer.encode(input.text, ordinaryText).length;
+      return {
+        json: { tokenCount },
+        lines: [input.file ? `${tokenCount}\t${input.file}` : String(tokenCount)],
+        tokenCount
+      };
+    }
+    case 'tokens': {
+      const tokens = tokenizer.encodeWithOffsets(input.text, ordinaryText).map(({ id, text, start, end }) => ({ id, text, start, end }));
+      return { json: { tokens }, lines: tokens.map(token => `${token.id}\t${JSON.stringify(token.text)}`) };
+    }
+  }
+}
+
+function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        encoding: { type: 'string', short: 'e' },
+        model: { type: 'string', short: 'm' },
+        'data-dir': { type: 'string' },
+        max: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    fail(`${err instanceof Error ? err.message : err}\n\n${usage}`);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...files] = positionals;
+
+  if (values.help || !command) {
+    console.log(usage);
+    process.exit(values.help ? 0 : 2);
+  }
+  if (!commands.includes(command as Command)) {
+    fail(`unknown command: ${command}\n\n${usage}`);
+  }
+  if (values.encoding && values.model) {
+    fail('--encoding and --model cannot be combined');
+  }
+
+  const max = values.max === undefined ? null : Number(values.max);
+  if (max !== null && (!Number.isInteger(max) || max < 0)) {
+    fail('--max must be a non-negative integer');
+  }
+  if (max !== null && command !== 'count') {
+    fail('--max only applies to count');
+  }
+
+  let encoding = values.encoding ?? 'cl100k_base';
+  if (values.model) {
+    try {
+      encoding = getEncodingNameForModel(values.model);
+    } catch (err) {
+      fail(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const tokenizer = loadTokenizer(encoding, values['data-dir']);
+  const inputs = readInputs(files);
+  const results = inputs.map(input => ({ input, ...run(tokenizer, command as Command, input) }));
+
+  if (values.json) {
+    const json = results.map(({ input, json }) => (input.file ? { file: input.file, ...json } : json));
+    console.log(JSON.stringify(json.length === 1 ? json[0] : json, null, 2));
+  } else {
+    for (const { input, lines } of results) {
+      // Headers as in head(1) separate the outputs of several files
+      if (results.length > 1 && command !== 'count') console.log(`==> ${input.file ?? 'stdin'} <==`);
+      console.log(lines.join('\n'));
+    }
+    if (results.length > 1 && command === 'count') {
+      const total = results.reduce((sum, { tokenCount }) => sum + tokenCount!, 0);
+      console.log(`${total}\ttotal`);
+    }
+  }
+
+  if (max !== null) {
+    const over = results.filter(({ tokenCount }) => tokenCount! > max);
+    for (const { input, tokenCount } of over) {
+      console.error(`${input.file ?? 'stdin'}: ${tokenCount} tokens exceeds --max ${max}`);
+    }
+    if (over.length > 0) process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,5 @@
+import { handleChatCount } from '@/tokenizer/api';
+import { apiRoute } from '@/tokenizer/server';
+
+// Request and response schema: ChatCountRequest in src/tokenizer/api.ts
+export const POST = apiRoute(handleChatCount);
@@ -0,0 +1,5 @@
+import { handleCount } from '@/tokenizer/api';
+import { apiRoute } from '@/tokenizer/server';
+
+// Request and response schema: CountRequest in src/tokenizer/api.ts
+export const POST = apiRoute(handleCount);
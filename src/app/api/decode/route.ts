@@ -0,0 +1,5 @@
+import { handleDecode } from '@/tokenizer/api';
+import { apiRoute } from '@/tokenizer/server';
+
+// Request and response schema: DecodeRequest in src/tokenizer/api.ts
+export const POST = apiRoute(handleDecode);
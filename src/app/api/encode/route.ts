@@ -0,0 +1,5 @@
+import { handleEncode } from '@/tokenizer/api';
+import { apiRoute } from '@/tokenizer/server';
+
+// Request and response schema: EncodeRequest in src/tokenizer/api.ts
+export const POST = apiRoute(handleEncode);
@@ -0,0 +1,12 @@
+import VocabExplorer from '@/components/VocabExplorer';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Vocabulary Explorer · GPT Tokenizer'
+};
+
+export default function VocabPage() {
+  return (
+    <VocabExplorer />
+  );
+}
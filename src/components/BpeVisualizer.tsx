@@ -0,0 +1,198 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { showInvisibles } from '@/lib/utils';
+import type { BpeTrace, PreToken } from '@/tokenizer/gpt-tokenizer';
+import { EncodingName } from '@/tokenizer/encodings';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { Pause, Play, SkipBack } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const STEP_INTERVAL_MS = 700;
+
+interface BpeVisualizerProps {
+	client: TokenizerWorkerClient | null;
+	encoding: EncodingName;
+	ready: boolean;
+	preTokens: PreToken[];
+}
+
+export default function BpeVisualizer({
+	client,
+	encoding,
+	ready,
+	preTokens
+}: BpeVisualizerProps) {
+	const [pretoken, setPretoken] = useState<string | null>(null);
+	const [trace, setTrace] = useState<BpeTrace | null>(null);
+	const [step, setStep] = useState(0);
+	const [playing, setPlaying] = useState(false);
+
+	useEffect(() => {
+		if (!client || !ready || pretoken === null) return;
+
+		const controller = new AbortController();
+		client
+			.request('traceBpe', { encoding, pretoken }, controller.signal)
+			.then(result => {
+				setTrace(result);
+				setStep(0);
+				setPlaying(true);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
+				console.error('BPE trace error:', err);
+				setTrace(null);
+			});
+
+		return () => controller.abort();
+	}, [client, ready, encoding, pretoken]);
+
+	const stepCount = trace?.steps.length ?? 0;
+
+	useEffect(() => {
+		if (!playing) return;
+		if (step >= stepCount) {
+			setPlaying(false);
+			return;
+		}
+
+		const timer = setTimeout(() => setStep(step + 1), STEP_INTERVAL_MS);
+		return () => clearTimeout(timer);
+	}, [playing, step, stepCount]);
+
+	const current = trace && step > 0 ? trace.steps[step - 1] : null;
+	const symbols = current?.symbols ?? trace?.initial ?? [];
+	const label = (id: number) => trace?.tokens[id] ?? `#${id}`;
+
+	return (
+		<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+			<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-fuchsia-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-fuchsia-600 transition-colors duration-300'>
+						BPE Merges
+					</span>
+				</CardTitle>
+				<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+					Click a pre-token to replay its merges from byte-level
+					characters, lowest rank first
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				<div className='max-h-40 overflow-y-auto flex flex-wrap gap-1 p-1'>
+					{preTokens.map((preToken, index) =>
+						preToken.special ? null : (
+							<button
+								key={index}
+								type='button'
+								onClick={() => setPretoken(preToken.text)}
+								className={`rounded border px-1.5 py-0.5 font-mono text-xs transition-colors hover:bg-accent ${
+									preToken.text === pretoken
+										? 'border-fuchsia-500 bg-fuchsia-50 text-fuchsia-700 dark:bg-fuchsia-950 dark:text-fuchsia-300'
+										: ''
+								}`}
+							>
+								{showInvisibles(preToken.text)}
+							</button>
+						)
+					)}
+				</div>
+
+				{trace && (
+					<div className='space-y-4'>
+						<div className='flex items-center gap-3'>
+							<Button
+								variant='outline'
+								size='icon'
+								aria-label={playing ? 'Pause' : 'Play'}
+								onClick={() => {
+									if (!playing && step >= stepCount)
+										setStep(0);
+									setPlaying(!playing);
+								}}
+							>
+								{playing ? <Pause /> : <Play />}
+							</Button>
+							<Button
+								variant='ghost'
+								size='icon'
+								aria-label='Back to bytes'
+								onClick={() => {
+									setPlaying(false);
+									setStep(0);
+								}}
+							>
+								<SkipBack />
+							</Button>
+							<input
+								type='range'
+								min={0}
+								max={stepCount}
+								value={step}
+								onChange={e => {
+									setPlaying(false);
+									setStep(Number(e.target.value));
+								}}
+								className='flex-1 accent-fuchsia-500'
+								aria-label='Merge step'
+							/>
+							<span className='text-sm font-mono text-muted-foreground w-20 text-right'>
+								{step} / {stepCount}
+							</span>
+						</div>
+
+						<div className='text-sm text-muted-foreground min-h-5'>
+							{current ? (
+								<>
+									Merged{' '}
+									<span className='font-mono text-foreground'>
+										{label(current.pair[0])}
+									</span>{' '}
+									+{' '}
+									<span className='font-mono text-foreground'>
+										{label(current.pair[1])}
+									</span>{' '}
+									→{' '}
+									<span className='font-mono text-foreground'>
+										{label(current.merged)}
+									</span>{' '}
+									(rank {current.rank}, ID {current.merged})
+								</>
+							) : stepCount > 0 ? (
+								`${symbols.length} byte-level characters`
+							) : (
+								'No merges apply: every byte is its own token'
+							)}
+						</div>
+
+						<div className='flex flex-wrap gap-2'>
+							{symbols.map((id, index) => (
+								<Badge
+									key={`${step}-${index}`}
+									variant='outline'
+									className={`font-mono text-sm transition-all duration-300 ${
+										current && index === current.index
+											? 'bg-fuchsia-100 border-fuchsia-500 text-fuchsia-700 scale-110 dark:bg-fuchsia-950 dark:text-fuchsia-300'
+											: ''
+									}`}
+									title={`ID ${id}`}
+								>
+									{label(id)}
+								</Badge>
+							))}
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ChunkBreak, TextChunk } from '@/tokenizer/chunk';
+import { EncodingName } from '@/tokenizer/encodings';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { Loader2, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const breakPresets: Record<string, { label: string; breakOn: ChunkBreak[] }> = {
+	paragraph: {
+		label: 'Paragraph, sentence, pre-token',
+		breakOn: ['paragraph', 'sentence', 'pretoken']
+	},
+	sentence: {
+		label: 'Sentence, pre-token',
+		breakOn: ['sentence', 'pretoken']
+	},
+	pretoken: { label: 'Pre-token', breakOn: ['pretoken'] },
+	token: { label: 'Any token', breakOn: [] }
+};
+
+const sampleDocument = `Tokenizers split text into tokens, the units a language model reads. Each token maps to an integer ID in the model's vocabulary.
+
+Byte pair encoding starts from single bytes and repeatedly merges the most frequent adjacent pair. Common words end up as a single token, while rare words are split into several pieces.
+
+Retrieval pipelines embed documents in chunks. Measuring chunks in tokens rather than characters keeps every chunk within the embedding model's input limit.`;
+
+interface ChunkPanelProps {
+	client: TokenizerWorkerClient | null;
+	encoding: EncodingName;
+	// False while `encoding` is still loading
+	ready: boolean;
+}
+
+export default function ChunkPanel({
+	client,
+	encoding,
+	ready
+}: ChunkPanelProps) {
+	const [text, setText] = useState(sampleDocument);
+	const [maxTokens, setMaxTokens] = useState(48);
+	const [overlap, setOverlap] = useState(8);
+	const [preset, setPreset] = useState('paragraph');
+	const [chunks, setChunks] = useState<TextChunk[] | null>(null);
+	const [computing, setComputing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!client || !ready) return;
+
+		const controller = new AbortController();
+		setComputing(true);
+
+		client
+			.request(
+				'chunk',
+				{
+					encoding,
+					text,
+					options: {
+						maxTokens,
+						overlap,
+						breakOn: breakPresets[preset].breakOn
+					}
+				},
+				controller.signal
+			)
+			.then(result => {
+				setChunks(result.chunks);
+				setError(null);
+				setComputing(false);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
+				setChunks(null);
+				setError(err instanceof Error ? err.message : 'Unknown error');
+				setComputing(false);
+			});
+
+		return () => controller.abort();
+	}, [client, ready, encoding, text, maxTokens, overlap, preset]);
+
+	return (
+		<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
+			<Card className='hover:shadow-2xl transition-all group'>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-3'>
+						<div className='w-3 h-3 bg-blue-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+						<span className='group-hover:text-blue-600 transition-colors duration-300'>
+							Document
+						</span>
+					</CardTitle>
+					<CardDescription>
+						Split text into token-sized chunks for embedding
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-4'>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='chunk-size'>
+								Chunk size (tokens)
+							</Label>
+							<Input
+								id='chunk-size'
+								type='number'
+								min={1}
+								value={maxTokens}
+								onChange={e =>
+									setMaxTokens(Number(e.target.value))
+								}
+							/>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='chunk-overlap'>
+								Overlap (tokens)
+							</Label>
+							<Input
+								id='chunk-overlap'
+								type='number'
+								min={0}
+								value={overlap}
+								onChange={e =>
+									setOverlap(Number(e.target.value))
+								}
+							/>
+						</div>
+					</div>
+					<div className='space-y-2'>
+						<Label>Preferred breaks</Label>
+						<Select value={preset} onValueChange={setPreset}>
+							<SelectTrigger className='w-full'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(breakPresets).map(
+									([value, { label }]) => (
+										<SelectItem key={value} value={value}>
+											{label}
+										</SelectItem>
+									)
+								)}
+							</SelectContent>
+						</Select>
+					</div>
+					<Textarea
+						value={text}
+						onChange={e => setText(e.target.value)}
+						placeholder='Paste a document...'
+						className='min-h-[320px] font-mono text-sm'
+					/>
+				</CardContent>
+			</Card>
+
+			<Card className='hover:shadow-2xl transition-all group'>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-3'>
+						<div className='w-3 h-3 bg-green-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+						<span className='group-hover:text-green-600 transition-colors duration-300'>
+							Chunks ({chunks?.length ?? 0})
+						</span>
+						{computing && (
+							<Loader2 className='ml-auto h-4 w-4 animate-spin text-muted-foreground' />
+						)}
+					</CardTitle>
+					<CardDescription>
+						Text repeated from the previous chunk is highlighted
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-3'>
+					{error && (
+						<Alert variant='destructive'>
+							<XCircle className='h-4 w-4' />
+							<AlertDescription>Error: {error}</AlertDescription>
+						</Alert>
+					)}
+					<div className='max-h-[560px] overflow-y-auto space-y-3'>
+						{chunks?.map((chunk, index) => {
+							const previousEnd =
+								index > 0 ? chunks[index - 1].end : chunk.start;
+							const overlapEnd = Math.max(
+								chunk.start,
+								Math.min(previousEnd, chunk.end)
+							);
+
+							return (
+								<div
+									key={index}
+									className='rounded-lg border p-3 space-y-2'
+								>
+									<div className='flex items-center gap-2 text-xs text-muted-foreground'>
+										<span className='font-medium text-foreground'>
+											#{index + 1}
+										</span>
+										<Badge
+											variant='secondary'
+											className='font-mono'
+										>
+											{chunk.tokenIds.length} tokens
+										</Badge>
+										<span className='font-mono'>
+											chars {chunk.start}–{chunk.end}
+										</span>
+									</div>
+									<div className='p-3 bg-accent rounded-md font-mono text-sm whitespace-pre-wrap break-all'>
+										{overlapEnd > chunk.start && (
+											<mark className='rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-700'>
+												{chunk.text.slice(
+													0,
+													overlapEnd - chunk.start
+												)}
+											</mark>
+										)}
+										{chunk.text.slice(
+											overlapEnd - chunk.start
+										)}
+									</div>
+								</div>
+							);
+						})}
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { AlignedSegment, SegmentKind } from '@/tokenizer/compare';
+import { EncodingName, encodings, isEncodingName } from '@/tokenizer/encodings';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { CompareSide } from '@/tokenizer/worker-protocol';
+import { Loader2, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const sampleText = `Which phrasing is cheaper? Tokenizers split words like "GPT-4o", code such as fetchUserProfile(id) and 東京タワー differently.`;
+
+const segmentStyles: Record<SegmentKind, string> = {
+	same: '',
+	split: 'bg-amber-100 dark:bg-amber-900/60',
+	changed: 'bg-rose-100 dark:bg-rose-900/60'
+};
+
+interface PaneState {
+	text: string;
+	encoding: EncodingName;
+}
+
+interface ComparePanelProps {
+	client: TokenizerWorkerClient | null;
+}
+
+export default function ComparePanel({ client }: ComparePanelProps) {
+	const [panes, setPanes] = useState<[PaneState, PaneState]>([
+		{ text: sampleText, encoding: 'cl100k_base' },
+		{ text: sampleText, encoding: 'o200k_base' }
+	]);
+	const [result, setResult] = useState<{
+		left: CompareSide;
+		right: CompareSide;
+		segments: AlignedSegment[];
+	} | null>(null);
+	const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
+	const [computing, setComputing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!client) return;
+
+		const controller = new AbortController();
+		setComputing(true);
+
+		client
+			.request(
+				'compare',
+				{ left: panes[0], right: panes[1] },
+				controller.signal
+			)
+			.then(compared => {
+				setResult(compared);
+				setError(null);
+				setComputing(false);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
+				setResult(null);
+				setError(err instanceof Error ? err.message : 'Unknown error');
+				setComputing(false);
+			});
+
+		return () => controller.abort();
+	}, [client, panes]);
+
+	const updatePane = (index: 0 | 1, update: Partial<PaneState>) => {
+		setPanes(current => {
+			const next: [PaneState, PaneState] = [...current];
+			next[index] = { ...current[index], ...update };
+			return next;
+		});
+	};
+
+	const sides = result ? [result.left, result.right] : [];
+	const difference = result
+		? result.right.offsets.length - result.left.offsets.length
+		: 0;
+	const differenceShare =
+		result && result.left.offsets.length > 0
+			? (difference / result.left.offsets.length) * 100
+			: null;
+	const differing = result
+		? result.segments.filter(segment => segment.kind !== 'same').length
+		: 0;
+
+	// Tokens of one side, grouped by segment so hovering a segment
+	// highlights its counterpart in the other pane
+	const renderSide = (side: CompareSide, which: 'left' | 'right') =>
+		result?.segments.map((segment, index) => {
+			const range = segment[which];
+			return (
+				<span
+					key={index}
+					className={`rounded-sm transition-shadow ${segmentStyles[segment.kind]} ${
+						hoveredSegment === index ? 'ring-2 ring-blue-500' : ''
+					}`}
+					onMouseEnter={() => setHoveredSegment(index)}
+					onMouseLeave={() => setHoveredSegment(null)}
+				>
+					{side.offsets
+						.slice(range.start, range.end)
+						.map((offset, i) => {
+							const previous = side.offsets[range.start + i - 1];
+							// Partial tokens of one character share its text
+							const text =
+								offset.partial &&
+								previous?.start === offset.start
+									? ''
+									: offset.text;
+							return (
+								<span
+									key={i}
+									className='border-r border-muted-foreground/40 last:border-r-0'
+									title={`ID ${offset.id}`}
+								>
+									{text}
+								</span>
+							);
+						})}
+				</span>
+			);
+		});
+
+	return (
+		<div className='space-y-8'>
+			<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
+				{panes.map((pane, index) => (
+					<Card
+						key={index}
+						className='hover:shadow-2xl transition-all group'
+					>
+						<CardHeader>
+							<CardTitle className='flex items-center gap-3'>
+								<div
+									className={`w-3 h-3 rounded-full animate-pulse group-hover:animate-bounce ${
+										index === 0
+											? 'bg-blue-500'
+											: 'bg-purple-500'
+									}`}
+								></div>
+								<span>{index === 0 ? 'Left' : 'Right'}</span>
+								<Select
+									value={pane.encoding}
+									onValueChange={value => {
+										if (isEncodingName(value)) {
+											updatePane(index as 0 | 1, {
+												encoding: value
+											});
+										}
+									}}
+								>
+									<SelectTrigger className='ml-auto w-40'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{Object.keys(encodings).map(name => (
+											<SelectItem key={name} value={name}>
+												<span className='font-mono'>
+													{name}
+												</span>
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</CardTitle>
+							<CardDescription>
+								{sides[index]
+									? `${sides[index].offsets.length} tokens, ${
+											sides[index].text.length
+										} chars`
+									: 'Not tokenized yet'}
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<Textarea
+								value={pane.text}
+								onChange={e =>
+									updatePane(index as 0 | 1, {
+										text: e.target.value
+									})
+								}
+								placeholder='Enter text to compare...'
+								className='min-h-[160px] font-mono text-sm'
+							/>
+						</CardContent>
+					</Card>
+				))}
+			</div>
+
+			{error && (
+				<Alert variant='destructive'>
+					<XCircle className='h-4 w-4' />
+					<AlertDescription>Error: {error}</AlertDescription>
+				</Alert>
+			)}
+
+			{result && (
+				<Card className='hover:shadow-2xl transition-all group'>
+					<CardHeader>
+						<CardTitle className='flex items-center gap-3'>
+							<div className='w-3 h-3 bg-amber-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+							<span className='group-hover:text-amber-600 transition-colors duration-300'>
+								Comparison
+							</span>
+							{computing && (
+								<Loader2 className='ml-auto h-4 w-4 animate-spin text-muted-foreground' />
+							)}
+						</CardTitle>
+						<CardDescription>
+							Regions tokenized differently are highlighted. Hover
+							one to find it in the other pane
+						</CardDescription>
+					</CardHeader>
+					<CardContent className='space-y-6'>
+						<div className='grid grid-cols-2 sm:grid-cols-4 gap-4 text-center'>
+							{sides.map((side, index) => (
+								<div
+									key={index}
+									className='p-3 rounded-lg bg-accent'
+								>
+									<div className='text-lg font-semibold font-mono'>
+										{side.offsets.length}
+									</div>
+									<div className='text-xs text-muted-foreground'>
+										{index === 0 ? 'Left' : 'Right'} tokens,{' '}
+										{side.offsets.length > 0
+											? (
+													side.text.length /
+													side.offsets.length
+												).toFixed(2)
+											: '—'}{' '}
+										chars/token
+									</div>
+								</div>
+							))}
+							<div className='p-3 rounded-lg bg-accent'>
+								<div
+									className={`text-lg font-semibold font-mono ${
+										difference < 0
+											? 'text-green-600'
+											: difference > 0
+												? 'text-red-600'
+												: ''
+									}`}
+								>
+									{difference > 0 ? '+' : ''}
+									{difference}
+									{differenceShare !== null &&
+										` (${differenceShare > 0 ? '+' : ''}${differenceShare.toFixed(1)}%)`}
+								</div>
+								<div className='text-xs text-muted-foreground'>
+									Right vs left
+								</div>
+							</div>
+							<div className='p-3 rounded-lg bg-accent'>
+								<div className='text-lg font-semibold font-mono'>
+									{differing}
+								</div>
+								<div className='text-xs text-muted-foreground'>
+									Differing regions
+								</div>
+							</div>
+						</div>
+
+						<div className='flex flex-wrap gap-2 text-xs'>
+							<Badge
+								variant='outline'
+								className={segmentStyles.split}
+							>
+								Same text, different tokens
+							</Badge>
+							<Badge
+								variant='outline'
+								className={segmentStyles.changed}
+							>
+								Different text
+							</Badge>
+						</div>
+
+						<div className='grid grid-cols-1 lg:grid-cols-2 gap-4'>
+							<div className='p-4 bg-accent/40 rounded-lg border font-mono text-sm whitespace-pre-wrap break-all max-h-[480px] overflow-y-auto'>
+								{renderSide(result.left, 'left')}
+							</div>
+							<div className='p-4 bg-accent/40 rounded-lg border font-mono text-sm whitespace-pre-wrap break-all max-h-[480px] overflow-y-auto'>
+								{renderSide(result.right, 'right')}
+							</div>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
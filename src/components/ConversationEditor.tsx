@@ -0,0 +1,161 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ChatMessage, ChatRole, chatRoles } from '@/tokenizer/chat';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+
+// Messages carry a stable id so React keeps textarea state across reorders
+export interface EditableMessage extends ChatMessage {
+	id: number;
+}
+
+let nextMessageId = 0;
+
+export function createMessage(
+	role: ChatRole,
+	content: string = ''
+): EditableMessage {
+	return { id: nextMessageId++, role, content };
+}
+
+interface ConversationEditorProps {
+	messages: EditableMessage[];
+	onChange: (messages: EditableMessage[]) => void;
+	// Parallel to `messages`; null while no counts are available
+	messageTokens: number[] | null;
+	totalTokens: number | null;
+}
+
+export default function ConversationEditor({
+	messages,
+	onChange,
+	messageTokens,
+	totalTokens
+}: ConversationEditorProps) {
+	const update = (index: number, changes: Partial<ChatMessage>) => {
+		onChange(
+			messages.map((message, i) =>
+				i === index ? { ...message, ...changes } : message
+			)
+		);
+	};
+
+	const move = (index: number, offset: number) => {
+		const next = [...messages];
+		const [message] = next.splice(index, 1);
+		next.splice(index + offset, 0, message);
+		onChange(next);
+	};
+
+	const remove = (index: number) => {
+		onChange(messages.filter((_, i) => i !== index));
+	};
+
+	const add = () => {
+		const last = messages[messages.length - 1];
+		onChange([
+			...messages,
+			createMessage(last?.role === 'user' ? 'assistant' : 'user')
+		]);
+	};
+
+	return (
+		<div className='space-y-4'>
+			{messages.map((message, index) => (
+				<div
+					key={message.id}
+					className='rounded-lg border p-3 space-y-2 transition-all duration-300 hover:shadow-md'
+				>
+					<div className='flex items-center gap-2'>
+						<span className='text-xs font-mono text-muted-foreground'>
+							#{index + 1}
+						</span>
+						<Select
+							value={message.role}
+							onValueChange={value =>
+								update(index, { role: value as ChatRole })
+							}
+						>
+							<SelectTrigger
+								size='sm'
+								className='w-32'
+								aria-label={`Role of message ${index + 1}`}
+							>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{chatRoles.map(role => (
+									<SelectItem key={role} value={role}>
+										{role}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Badge variant='secondary' className='font-mono'>
+							{messageTokens?.[index] ?? '–'} tokens
+						</Badge>
+						<div className='ml-auto flex items-center'>
+							<Button
+								variant='ghost'
+								size='icon'
+								aria-label='Move up'
+								disabled={index === 0}
+								onClick={() => move(index, -1)}
+							>
+								<ArrowUp />
+							</Button>
+							<Button
+								variant='ghost'
+								size='icon'
+								aria-label='Move down'
+								disabled={index === messages.length - 1}
+								onClick={() => move(index, 1)}
+							>
+								<ArrowDown />
+							</Button>
+							<Button
+								variant='ghost'
+								size='icon'
+								aria-label='Remove message'
+								onClick={() => remove(index)}
+							>
+								<Trash2 />
+							</Button>
+						</div>
+					</div>
+					<Textarea
+						value={message.content}
+						onChange={e =>
+							update(index, { content: e.target.value })
+						}
+						placeholder={`Enter ${message.role} message...`}
+						className='min-h-[90px] transition-all duration-300 focus:ring-2 focus:ring-blue-500 hover:shadow-md'
+					/>
+				</div>
+			))}
+
+			<div className='flex items-center justify-between'>
+				<Button variant='outline' size='sm' onClick={add}>
+					<Plus />
+					Add message
+				</Button>
+				<span className='text-sm text-muted-foreground'>
+					Total:{' '}
+					<span className='font-semibold text-foreground'>
+						{totalTokens ?? '–'}
+					</span>{' '}
+					prompt tokens
+				</span>
+			</div>
+		</div>
+	);
+}
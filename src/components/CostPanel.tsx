@@ -0,0 +1,372 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { downloadFile } from '@/lib/utils';
+import {
+	defaultPrices,
+	estimateCost,
+	formatUsd,
+	getModelPrice,
+	ModelPrice,
+	parsePriceTable,
+	PriceTable,
+	serializePriceTable
+} from '@/tokenizer/pricing';
+import {
+	Download,
+	Plus,
+	RotateCcw,
+	Trash2,
+	Upload,
+	XCircle
+} from 'lucide-react';
+import { ChangeEvent, useRef, useState } from 'react';
+
+interface CostPanelProps {
+	model: string;
+	// Billed prompt tokens, null while unknown
+	promptTokens: number | null;
+	prices: PriceTable;
+	onPricesChange: (prices: PriceTable) => void;
+}
+
+export default function CostPanel({
+	model,
+	promptTokens,
+	prices,
+	onPricesChange
+}: CostPanelProps) {
+	const [outputTokens, setOutputTokens] = useState(500);
+	const [cachedTokens, setCachedTokens] = useState(0);
+	const [editing, setEditing] = useState(false);
+	const [newModel, setNewModel] = useState('');
+	const [importError, setImportError] = useState<string | null>(null);
+	const fileRef = useRef<HTMLInputElement>(null);
+
+	const price = getModelPrice(prices, model);
+	const estimate =
+		price && promptTokens !== null
+			? estimateCost(price, {
+					inputTokens: promptTokens,
+					cachedInputTokens: cachedTokens,
+					outputTokens
+				})
+			: null;
+
+	const updateRate = (
+		name: string,
+		field: keyof ModelPrice,
+		value: string
+	) => {
+		const next: ModelPrice = { ...prices[name] };
+		if (field === 'cachedInput' && value === '') {
+			delete next.cachedInput;
+		} else {
+			next[field] = Math.max(0, Number(value) || 0);
+		}
+		onPricesChange({ ...prices, [name]: next });
+	};
+
+	const removeModel = (name: string) => {
+		const next = { ...prices };
+		delete next[name];
+		onPricesChange(next);
+	};
+
+	const addModel = () => {
+		const name = newModel.trim();
+		if (!name || Object.prototype.hasOwnProperty.call(prices, name)) return;
+		onPricesChange({ ...prices, [name]: { input: 0, output: 0 } });
+		setNewModel('');
+	};
+
+	const exportPrices = () => {
+		downloadFile(
+			serializePriceTable(prices),
+			'model-prices.json',
+			'application/json'
+		);
+	};
+
+	const importPrices = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+
+		try {
+			onPricesChange(parsePriceTable(await file.text()));
+			setImportError(null);
+		} catch (err) {
+			setImportError(
+				err instanceof Error ? err.message : 'Unknown error'
+			);
+		}
+	};
+
+	return (
+		<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+			<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-amber-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-amber-600 transition-colors duration-300'>
+						Cost Estimate
+					</span>
+					<Button
+						variant='ghost'
+						size='sm'
+						className='ml-auto'
+						onClick={() => setEditing(!editing)}
+					>
+						{editing ? 'Done' : 'Edit prices'}
+					</Button>
+				</CardTitle>
+				<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+					{price
+						? `${model}: $${price.input} input, $${
+								price.cachedInput ?? price.input
+							} cached input, $${price.output} output per 1M tokens`
+						: `No price for ${model}. Add it to the price table`}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				<div className='grid grid-cols-2 gap-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='cached-tokens'>
+							Cached input tokens
+						</Label>
+						<Input
+							id='cached-tokens'
+							type='number'
+							min={0}
+							value={cachedTokens}
+							onChange={e =>
+								setCachedTokens(
+									Math.max(0, Number(e.target.value) || 0)
+								)
+							}
+						/>
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='output-tokens'>
+							Expected output tokens
+						</Label>
+						<Input
+							id='output-tokens'
+							type='number'
+							min={0}
+							value={outputTokens}
+							onChange={e =>
+								setOutputTokens(
+									Math.max(0, Number(e.target.value) || 0)
+								)
+							}
+						/>
+					</div>
+				</div>
+
+				{estimate && (
+					<div className='grid grid-cols-2 sm:grid-cols-4 gap-4 text-center'>
+						<div className='p-3 rounded-lg bg-accent'>
+							<div className='text-lg font-semibold font-mono'>
+								{formatUsd(estimate.inputCost)}
+							</div>
+							<div className='text-xs text-muted-foreground'>
+								Input
+							</div>
+						</div>
+						<div className='p-3 rounded-lg bg-accent'>
+							<div className='text-lg font-semibold font-mono'>
+								{formatUsd(estimate.cachedInputCost)}
+							</div>
+							<div className='text-xs text-muted-foreground'>
+								Cached input
+							</div>
+						</div>
+						<div className='p-3 rounded-lg bg-accent'>
+							<div className='text-lg font-semibold font-mono'>
+								{formatUsd(estimate.outputCost)}
+							</div>
+							<div className='text-xs text-muted-foreground'>
+								Output
+							</div>
+						</div>
+						<div className='p-3 rounded-lg bg-gradient-to-br from-amber-50 to-amber-100 text-amber-700'>
+							<div className='text-lg font-bold font-mono'>
+								{formatUsd(estimate.totalCost)}
+							</div>
+							<div className='text-xs'>Total</div>
+						</div>
+					</div>
+				)}
+
+				{editing && (
+					<div className='space-y-3'>
+						<div className='flex flex-wrap items-center gap-2'>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={() => fileRef.current?.click()}
+							>
+								<Upload />
+								Import JSON
+							</Button>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={exportPrices}
+							>
+								<Download />
+								Export JSON
+							</Button>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={() => onPricesChange(defaultPrices)}
+							>
+								<RotateCcw />
+								Reset
+							</Button>
+							<input
+								ref={fileRef}
+								type='file'
+								accept='application/json,.json'
+								className='hidden'
+								onChange={importPrices}
+							/>
+						</div>
+						{importError && (
+							<Alert variant='destructive'>
+								<XCircle className='h-4 w-4' />
+								<AlertDescription>
+									Import failed: {importError}
+								</AlertDescription>
+							</Alert>
+						)}
+						<div className='overflow-x-auto'>
+							<table className='w-full text-sm'>
+								<thead className='text-muted-foreground'>
+									<tr className='text-left'>
+										<th className='py-2 font-medium'>
+											Model
+										</th>
+										<th className='py-2 font-medium'>
+											Input $/1M
+										</th>
+										<th className='py-2 font-medium'>
+											Cached $/1M
+										</th>
+										<th className='py-2 font-medium'>
+											Output $/1M
+										</th>
+										<th></th>
+									</tr>
+								</thead>
+								<tbody>
+									{Object.entries(prices).map(
+										([name, rates]) => (
+											<tr key={name} className='border-t'>
+												<td className='py-1 pr-2 font-mono'>
+													{name}
+												</td>
+												<td className='py-1 pr-2'>
+													<Input
+														type='number'
+														min={0}
+														step='any'
+														value={rates.input}
+														onChange={e =>
+															updateRate(
+																name,
+																'input',
+																e.target.value
+															)
+														}
+													/>
+												</td>
+												<td className='py-1 pr-2'>
+													<Input
+														type='number'
+														min={0}
+														step='any'
+														placeholder='—'
+														value={
+															rates.cachedInput ??
+															''
+														}
+														onChange={e =>
+															updateRate(
+																name,
+																'cachedInput',
+																e.target.value
+															)
+														}
+													/>
+												</td>
+												<td className='py-1 pr-2'>
+													<Input
+														type='number'
+														min={0}
+														step='any'
+														value={rates.output}
+														onChange={e =>
+															updateRate(
+																name,
+																'output',
+																e.target.value
+															)
+														}
+													/>
+												</td>
+												<td className='py-1'>
+													<Button
+														variant='ghost'
+														size='icon'
+														aria-label={`Remove ${name}`}
+														onClick={() =>
+															removeModel(name)
+														}
+													>
+														<Trash2 />
+													</Button>
+												</td>
+											</tr>
+										)
+									)}
+								</tbody>
+							</table>
+						</div>
+						<div className='flex items-center gap-2'>
+							<Input
+								value={newModel}
+								onChange={e => setNewModel(e.target.value)}
+								onKeyDown={e => {
+									if (e.key === 'Enter') addModel();
+								}}
+								placeholder='Model name'
+								className='w-48'
+							/>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={addModel}
+							>
+								<Plus />
+								Add model
+							</Button>
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
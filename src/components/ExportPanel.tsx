@@ -0,0 +1,149 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { downloadFile } from '@/lib/utils';
+import {
+	createTokenizationExport,
+	encodeTokenIdsBase64,
+	toCsv,
+	toJson,
+	toPythonList,
+	toTypeScriptArray
+} from '@/tokenizer/export';
+import { ChatAnalysis } from '@/tokenizer/worker-protocol';
+import { Check, Copy, Download } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+type Literal = 'typescript' | 'python' | 'base64';
+
+const literalLabels: Record<Literal, string> = {
+	typescript: 'TypeScript array',
+	python: 'Python list',
+	base64: 'Base64 Uint32Array'
+};
+
+const COPIED_FEEDBACK_MS = 1500;
+
+interface ExportPanelProps {
+	analysis: ChatAnalysis | null;
+}
+
+export default function ExportPanel({ analysis }: ExportPanelProps) {
+	const [copied, setCopied] = useState<Literal | null>(null);
+	const [copyError, setCopyError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!copied) return;
+		const timer = setTimeout(() => setCopied(null), COPIED_FEEDBACK_MS);
+		return () => clearTimeout(timer);
+	}, [copied]);
+
+	const data = analysis
+		? createTokenizationExport(
+				analysis.encoding,
+				analysis.model,
+				analysis.formattedText,
+				analysis.decodedText,
+				analysis.offsets,
+				analysis.tokens
+			)
+		: null;
+	const filename = `tokens-${analysis?.model ?? analysis?.encoding}`;
+
+	const copyLiteral = async (literal: Literal) => {
+		if (!data) return;
+
+		const text =
+			literal === 'typescript'
+				? toTypeScriptArray(data.tokenIds)
+				: literal === 'python'
+					? toPythonList(data.tokenIds)
+					: encodeTokenIdsBase64(data.tokenIds);
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopied(literal);
+			setCopyError(null);
+		} catch (err) {
+			setCopyError(
+				err instanceof Error ? err.message : 'Clipboard unavailable'
+			);
+		}
+	};
+
+	return (
+		<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+			<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-slate-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-slate-600 transition-colors duration-300'>
+						Export
+					</span>
+				</CardTitle>
+				<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+					Download the tokens with their offsets, or copy the IDs as
+					code. The base64 form decodes to a little-endian Uint32Array
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-3'>
+				<div className='flex flex-wrap gap-2'>
+					<Button
+						variant='outline'
+						size='sm'
+						disabled={!data}
+						onClick={() =>
+							data &&
+							downloadFile(
+								toJson(data),
+								`${filename}.json`,
+								'application/json'
+							)
+						}
+					>
+						<Download />
+						JSON
+					</Button>
+					<Button
+						variant='outline'
+						size='sm'
+						disabled={!data}
+						onClick={() =>
+							data &&
+							downloadFile(
+								toCsv(data),
+								`${filename}.csv`,
+								'text/csv'
+							)
+						}
+					>
+						<Download />
+						CSV
+					</Button>
+					{(Object.keys(literalLabels) as Literal[]).map(literal => (
+						<Button
+							key={literal}
+							variant='outline'
+							size='sm'
+							disabled={!data}
+							onClick={() => copyLiteral(literal)}
+						>
+							{copied === literal ? <Check /> : <Copy />}
+							{literalLabels[literal]}
+						</Button>
+					))}
+				</div>
+				{copyError && (
+					<p className='text-sm text-destructive'>
+						Copy failed: {copyError}
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
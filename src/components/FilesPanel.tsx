@@ -0,0 +1,441 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { EncodingName } from '@/tokenizer/encodings';
+import {
+	estimateCost,
+	formatUsd,
+	getModelPrice,
+	PriceTable
+} from '@/tokenizer/pricing';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import {
+	ArrowDown,
+	ArrowUp,
+	ArrowUpDown,
+	Loader2,
+	Trash2,
+	Upload,
+	X
+} from 'lucide-react';
+import { ChangeEvent, DragEvent, useEffect, useRef, useState } from 'react';
+
+const acceptedFiles =
+	'.txt,.md,.markdown,.json,.jsonl,.csv,.tsv,.xml,.html,.css,.yaml,.yml,.toml,.ini,.log,.js,.jsx,.ts,.tsx,.py,.rb,.go,.rs,.java,.kt,.c,.h,.cpp,.hpp,.cs,.php,.swift,.sh,.sql,text/*,application/json';
+
+interface DroppedFile {
+	id: number;
+	name: string;
+	text: string;
+	// Skipped instead of tokenized, see looksBinary
+	binary: boolean;
+}
+
+interface FileCount {
+	encoding: EncodingName;
+	tokenCount: number | null;
+	error: string | null;
+}
+
+type SortKey = 'name' | 'chars' | 'tokens' | 'ratio' | 'cost';
+
+const columns: Array<{ key: SortKey; label: string; numeric: boolean }> = [
+	{ key: 'name', label: 'File', numeric: false },
+	{ key: 'chars', label: 'Characters', numeric: true },
+	{ key: 'tokens', label: 'Tokens', numeric: true },
+	{ key: 'ratio', label: 'Chars/token', numeric: true },
+	{ key: 'cost', label: 'Input cost', numeric: true }
+];
+
+// Text files have no NUL bytes; checking the start is enough to reject most
+// binaries before tokenizing them as text
+function looksBinary(text: string): boolean {
+	return text.slice(0, 8192).includes('\0');
+}
+
+interface FilesPanelProps {
+	client: TokenizerWorkerClient | null;
+	encoding: EncodingName;
+	// False while `encoding` is still loading
+	ready: boolean;
+	model: string;
+	prices: PriceTable;
+}
+
+export default function FilesPanel({
+	client,
+	encoding,
+	ready,
+	model,
+	prices
+}: FilesPanelProps) {
+	const [files, setFiles] = useState<DroppedFile[]>([]);
+	const [counts, setCounts] = useState<Record<number, FileCount>>({});
+	const [progress, setProgress] = useState<{
+		id: number;
+		fraction: number;
+	} | null>(null);
+	const [dragging, setDragging] = useState(false);
+	const [reading, setReading] = useState(false);
+	const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+		key: 'tokens',
+		descending: true
+	});
+	const nextId = useRef(0);
+	const fileRef = useRef<HTMLInputElement>(null);
+
+	// Files are counted one at a time, and again after the encoding changes
+	const pending =
+		files.find(
+			file => !file.binary && counts[file.id]?.encoding !== encoding
+		) ?? null;
+
+	useEffect(() => {
+		if (!client || !ready || !pending) return;
+
+		const controller = new AbortController();
+		setProgress({ id: pending.id, fraction: 0 });
+
+		const finish = (count: Omit<FileCount, 'encoding'>) => {
+			setCounts(current => ({
+				...current,
+				[pending.id]: { encoding, ...count }
+			}));
+		};
+
+		client
+			.request(
+				'countTokens',
+				{ encoding, text: pending.text },
+				controller.signal,
+				fraction => setProgress({ id: pending.id, fraction })
+			)
+			.then(result =>
+				finish({ tokenCount: result.tokenCount, error: null })
+			)
+			.catch(err => {
+				if (isAbortError(err)) return;
+				finish({
+					tokenCount: null,
+					error: err instanceof Error ? err.message : 'Unknown error'
+				});
+			});
+
+		return () => controller.abort();
+	}, [client, ready, encoding, pending]);
+
+	const addFiles = async (list: FileList | null) => {
+		if (!list || list.length === 0) return;
+
+		setReading(true);
+		const added: DroppedFile[] = [];
+		for (const file of Array.from(list)) {
+			const text = await file.text();
+			added.push({
+				id: nextId.current++,
+				name: file.name,
+				text,
+				binary: looksBinary(text)
+			});
+		}
+		setFiles(current => [...current, ...added]);
+		setReading(false);
+	};
+
+	const removeFile = (id: number) => {
+		setFiles(current => current.filter(file => file.id !== id));
+	};
+
+	const onDrop = (e: DragEvent<HTMLDivElement>) => {
+		e.preventDefault();
+		setDragging(false);
+		addFiles(e.dataTransfer.files);
+	};
+
+	const onSelect = (e: ChangeEvent<HTMLInputElement>) => {
+		addFiles(e.target.files);
+		e.target.value = '';
+	};
+
+	const price = getModelPrice(prices, model);
+	const costOf = (tokens: number) =>
+		price ? estimateCost(price, { inputTokens: tokens }).inputCost : null;
+
+	const rows = files.map(file => {
+		const count = counts[file.id];
+		const tokens = count?.encoding === encoding ? count.tokenCount : null;
+		return {
+			file,
+			error: file.binary
+				? 'Not a text file'
+				: count?.encoding === encoding
+					? count.error
+					: null,
+			chars: file.text.length,
+			tokens,
+			ratio: tokens ? file.text.length / tokens : null,
+			cost: tokens !== null ? costOf(tokens) : null
+		};
+	});
+
+	const sortValue = (row: (typeof rows)[number]) =>
+		sort.key === 'name' ? row.file.name : row[sort.key];
+
+	const sortedRows = [...rows].sort((a, b) => {
+		const x = sortValue(a);
+		const y = sortValue(b);
+		// Rows without a value yet stay at the bottom either way
+		if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+		const order =
+			typeof x === 'string'
+				? x.localeCompare(y as string)
+				: x - (y as number);
+		return sort.descending ? -order : order;
+	});
+
+	const counted = rows.filter(row => row.tokens !== null);
+	const totalChars = counted.reduce((sum, row) => sum + row.chars, 0);
+	const totalTokens = counted.reduce((sum, row) => sum + row.tokens!, 0);
+	const totalCost = costOf(totalTokens);
+	const done = rows.filter(row => row.tokens !== null || row.error).length;
+	// Progress reports of an aborted count may still be in state
+	const fraction =
+		pending && progress?.id === pending.id ? progress.fraction : 0;
+
+	const toggleSort = (key: SortKey) => {
+		setSort(current =>
+			current.key === key
+				? { key, descending: !current.descending }
+				: { key, descending: key !== 'name' }
+		);
+	};
+
+	return (
+		<Card className='hover:shadow-2xl transition-all group'>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-teal-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-teal-600 transition-colors duration-300'>
+						Files ({files.length})
+					</span>
+					{(pending || reading) && (
+						<Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+					)}
+					{files.length > 0 && (
+						<Button
+							variant='ghost'
+							size='sm'
+							className='ml-auto'
+							onClick={() => {
+								setFiles([]);
+								setCounts({});
+							}}
+						>
+							<Trash2 />
+							Clear
+						</Button>
+					)}
+				</CardTitle>
+				<CardDescription>
+					Token counts of whole documents as {encoding} text, priced
+					as {model} input
+					{price ? '' : ' (no price for this model)'}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				<div
+					role='button'
+					tabIndex={0}
+					onClick={() => fileRef.current?.click()}
+					onKeyDown={e => {
+						if (e.key === 'Enter' || e.key === ' ') {
+							fileRef.current?.click();
+						}
+					}}
+					onDragOver={e => {
+						e.preventDefault();
+						setDragging(true);
+					}}
+					onDragLeave={() => setDragging(false)}
+					onDrop={onDrop}
+					className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-sm text-muted-foreground cursor-pointer transition-colors ${
+						dragging
+							? 'border-teal-500 bg-teal-50 dark:bg-teal-950'
+							: 'hover:bg-accent'
+					}`}
+				>
+					<Upload className='h-6 w-6' />
+					<span>
+						Drop text, Markdown, JSON, CSV or source files here, or
+						click to choose
+					</span>
+					<input
+						ref={fileRef}
+						type='file'
+						multiple
+						accept={acceptedFiles}
+						className='hidden'
+						onChange={onSelect}
+					/>
+				</div>
+
+				{files.length > 0 && (
+					<>
+						{done < files.length && (
+							<div className='space-y-1'>
+								<div className='flex justify-between text-xs text-muted-foreground'>
+									<span>
+										Tokenizing {done + 1} of {files.length}
+									</span>
+									<span className='font-mono'>
+										{Math.round(fraction * 100)}%
+									</span>
+								</div>
+								<div className='h-2 w-full overflow-hidden rounded-full bg-accent'>
+									<div
+										className='h-full bg-teal-500 transition-all duration-300'
+										style={{
+											width: `${
+												((done + fraction) /
+													files.length) *
+												100
+											}%`
+										}}
+									/>
+								</div>
+							</div>
+						)}
+
+						<div className='overflow-x-auto'>
+							<table className='w-full text-sm'>
+								<thead className='text-muted-foreground'>
+									<tr>
+										{columns.map(column => (
+											<th
+												key={column.key}
+												className={`py-2 font-medium ${
+													column.numeric
+														? 'text-right'
+														: 'text-left'
+												}`}
+												aria-sort={
+													sort.key === column.key
+														? sort.descending
+															? 'descending'
+															: 'ascending'
+														: 'none'
+												}
+											>
+												<button
+													type='button'
+													onClick={() =>
+														toggleSort(column.key)
+													}
+													className='inline-flex items-center gap-1 hover:text-foreground'
+												>
+													{column.label}
+													{sort.key === column.key ? (
+														sort.descending ? (
+															<ArrowDown className='h-3 w-3' />
+														) : (
+															<ArrowUp className='h-3 w-3' />
+														)
+													) : (
+														<ArrowUpDown className='h-3 w-3 opacity-50' />
+													)}
+												</button>
+											</th>
+										))}
+										<th></th>
+									</tr>
+								</thead>
+								<tbody>
+									{sortedRows.map(row => (
+										<tr
+											key={row.file.id}
+											className='border-t'
+										>
+											<td className='py-2 pr-2 font-mono break-all'>
+												{row.file.name}
+											</td>
+											<td className='py-2 pr-2 text-right font-mono'>
+												{row.chars.toLocaleString()}
+											</td>
+											<td className='py-2 pr-2 text-right font-mono'>
+												{row.error ? (
+													<span className='text-destructive'>
+														{row.error}
+													</span>
+												) : row.tokens !== null ? (
+													row.tokens.toLocaleString()
+												) : pending?.id ===
+												  row.file.id ? (
+													`${Math.round(fraction * 100)}%`
+												) : (
+													'—'
+												)}
+											</td>
+											<td className='py-2 pr-2 text-right font-mono'>
+												{row.ratio?.toFixed(2) ?? '—'}
+											</td>
+											<td className='py-2 pr-2 text-right font-mono'>
+												{row.cost !== null
+													? formatUsd(row.cost)
+													: '—'}
+											</td>
+											<td className='py-1 text-right'>
+												<Button
+													variant='ghost'
+													size='icon'
+													aria-label={`Remove ${row.file.name}`}
+													onClick={() =>
+														removeFile(row.file.id)
+													}
+												>
+													<X />
+												</Button>
+											</td>
+										</tr>
+									))}
+								</tbody>
+								<tfoot>
+									<tr className='border-t-2 font-semibold'>
+										<td className='py-2 pr-2'>
+											Total ({counted.length} files)
+										</td>
+										<td className='py-2 pr-2 text-right font-mono'>
+											{totalChars.toLocaleString()}
+										</td>
+										<td className='py-2 pr-2 text-right font-mono'>
+											{totalTokens.toLocaleString()}
+										</td>
+										<td className='py-2 pr-2 text-right font-mono'>
+											{totalTokens > 0
+												? (
+														totalChars / totalTokens
+													).toFixed(2)
+												: '—'}
+										</td>
+										<td className='py-2 pr-2 text-right font-mono'>
+											{totalCost !== null
+												? formatUsd(totalCost)
+												: '—'}
+										</td>
+										<td></td>
+									</tr>
+								</tfoot>
+							</table>
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,7 +1,20 @@
 'use client';
 
+import BpeVisualizer from '@/components/BpeVisualizer';
+import ChunkPanel from '@/components/ChunkPanel';
+import ComparePanel from '@/components/ComparePanel';
+import ConversationEditor, {
+	createMessage,
+	EditableMessage
+} from '@/components/ConversationEditor';
+import CostPanel from '@/components/CostPanel';
+import ExportPanel from '@/components/ExportPanel';
+import FilesPanel from '@/components/FilesPanel';
+import TokenInspector from '@/components/TokenInspector';
+import ToolsPanel, { sampleTools } from '@/components/ToolsPanel';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import {
 	Card,
 	CardContent,
@@ -17,98 +30,370 @@ import {
 	SelectTrigger,
 	SelectValue
 } from '@/components/ui/select';
-import { Textarea } from '@/components/ui/textarea';
-import { GPTTokenizer, TokenizerData } from '@/tokenizer/gpt-tokenizer';
-import { CheckCircle, Laptop, Loader2, Moon, Sun, XCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+	EncodingName,
+	encodings,
+	checkContextFit,
+	getEncodingNameForModel,
+	isEncodingName
+} from '@/tokenizer/encodings';
+import {
+	decodePermalinkHash,
+	encodePermalinkHash,
+	MAX_PERMALINK_LENGTH
+} from '@/tokenizer/permalink';
+import { defaultPrices, PriceTable } from '@/tokenizer/pricing';
+import { parseToolDefinitions, ToolDefinition } from '@/tokenizer/tools';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { ChatAnalysis } from '@/tokenizer/worker-protocol';
+import {
+	AlertTriangle,
+	BookOpen,
+	Check,
+	CheckCircle,
+	Laptop,
+	Link2,
+	Loader2,
+	Moon,
+	Sun,
+	XCircle
+} from 'lucide-react';
 import { useTheme } from 'next-themes';
-import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+
+// Chat models offered in the model selector
+const chatModels = [
+	'gpt-4.1',
+	'gpt-4o',
+	'gpt-4o-mini',
+	'o3',
+	'o4-mini',
+	'gpt-4',
+	'gpt-4-turbo',
+	'gpt-3.5-turbo',
+	'gpt-3.5-turbo-0301'
+];
+
+const views = ['tokenize', 'chunk', 'compare', 'files'];
+
+const COPIED_FEEDBACK_MS = 1500;
 
 export default function GPTTokenizerDemo() {
 	const { theme, setTheme } = useTheme();
-	const [systemText, setSystemText] = useState<string>(
-		'You are a helpful AI assistant. Please provide accurate and helpful responses to user questions.'
-	);
-	const [userText, setUserText] = useState<string>(
-		'What is the capital of France and what makes it culturally significant?'
+	const [messages, setMessages] = useState<EditableMessage[]>(() => [
+		createMessage(
+			'system',
+			'You are a helpful AI assistant. Please provide accurate and helpful responses to user questions.'
+		),
+		createMessage(
+			'user',
+			'What is the capital of France and what makes it culturally significant?'
+		)
+	]);
+	const [model, setModel] = useState('gpt-4');
+	const [view, setView] = useState('tokenize');
+	const [prices, setPrices] = useState<PriceTable>(defaultPrices);
+	const [toolsJson, setToolsJson] = useState(sampleTools);
+	const [encoding, setEncoding] = useState<EncodingName>('cl100k_base');
+	const [result, setResult] = useState<ChatAnalysis | null>(null);
+	const [loadedEncoding, setLoadedEncoding] = useState<EncodingName | null>(
+		null
 	);
-	const [tokens, setTokens] = useState<string[]>([]);
-	const [tokenIds, setTokenIds] = useState<number[]>([]);
-	const [decodedText, setDecodedText] = useState('');
-	const [isVerified, setIsVerified] = useState(false);
-	const [tokenizer, setTokenizer] = useState<GPTTokenizer | null>(null);
 	const [loading, setLoading] = useState(true);
+	const [computing, setComputing] = useState(false);
+	const [hoveredToken, setHoveredToken] = useState<number | null>(null);
+	const [inspectedToken, setInspectedToken] = useState<{
+		encoding: EncodingName;
+		id: number;
+	} | null>(null);
 	const [error, setError] = useState<string | null>(null);
+	const [linkCopied, setLinkCopied] = useState(false);
+	const [shareNotice, setShareNotice] = useState<{
+		variant: 'default' | 'destructive';
+		message: string;
+	} | null>(null);
+	const clientRef = useRef<TokenizerWorkerClient | null>(null);
+
+	// Invalid JSON sends no tools; the panel shows the parse error
+	const parsedTools = useMemo((): {
+		tools: ToolDefinition[];
+		error: string | null;
+	} => {
+		if (!toolsJson.trim()) return { tools: [], error: null };
+		try {
+			return { tools: parseToolDefinitions(toolsJson), error: null };
+		} catch (err) {
+			return {
+				tools: [],
+				error: err instanceof Error ? err.message : 'Unknown error'
+			};
+		}
+	}, [toolsJson]);
+
+	// All tokenizer loading and encoding runs in a Web Worker
+	useEffect(() => {
+		const client = new TokenizerWorkerClient();
+		clientRef.current = client;
+		return () => {
+			client.terminate();
+			clientRef.current = null;
+		};
+	}, []);
 
+	// Share links carry the demo state in the URL fragment
 	useEffect(() => {
-		let isMounted = true;
-		async function loadTokenizer() {
-			try {
-				const [vocabResponse, mergesResponse] = await Promise.all([
-					fetch('/tokenizer/vocab.json'),
-					fetch('/tokenizer/merges.txt')
-				]);
-
-				if (!vocabResponse.ok || !mergesResponse.ok) {
-					throw new Error('Failed to load tokenizer files');
-				}
-
-				const vocab = await vocabResponse.json();
-				const mergesText = await mergesResponse.text();
-
-				const merges = mergesText
-					.split('\n')
-					.filter(line => line.trim() && !line.startsWith('#version'))
-					.slice(1);
-
-				const tokenizerData: TokenizerData = { vocab, merges };
-				const newTokenizer = new GPTTokenizer(tokenizerData);
-
-				if (isMounted) {
-					setTokenizer(newTokenizer);
-					setLoading(false);
-				}
-			} catch (err) {
-				if (isMounted) {
-					setError(
-						err instanceof Error ? err.message : 'Unknown error'
+		let cancelled = false;
+
+		const restore = () => {
+			decodePermalinkHash(window.location.hash)
+				.then(state => {
+					if (cancelled || !state) return;
+					setMessages(
+						state.messages.map(({ role, content }) =>
+							createMessage(role, content)
+						)
 					);
-					setLoading(false);
-				}
-			}
-		}
+					setEncoding(state.encoding);
+					// Models and views this version no longer offers keep the
+					// current selection
+					if (chatModels.includes(state.model)) setModel(state.model);
+					if (views.includes(state.view)) setView(state.view);
+					setShareNotice(null);
+				})
+				.catch(err => {
+					if (cancelled) return;
+					setShareNotice({
+						variant: 'destructive',
+						message: `Could not restore the shared link: ${
+							err instanceof Error ? err.message : 'Unknown error'
+						}`
+					});
+				});
+		};
 
-		loadTokenizer();
+		restore();
+		window.addEventListener('hashchange', restore);
 		return () => {
-			isMounted = false;
+			cancelled = true;
+			window.removeEventListener('hashchange', restore);
 		};
 	}, []);
 
 	useEffect(() => {
-		if (tokenizer && (systemText || userText)) {
-			try {
-				const formattedText = tokenizer.formatChatMessages(
-					systemText,
-					userText
-				);
-				const newTokens = tokenizer.tokenize(formattedText);
-				const newTokenIds = tokenizer.encode(formattedText);
-				const decoded = tokenizer.decode(newTokenIds);
-
-				setTokens(newTokens);
-				setTokenIds(newTokenIds);
-				setDecodedText(decoded);
-				setIsVerified(formattedText === decoded);
-			} catch (err) {
+		if (!linkCopied) return;
+		const timer = setTimeout(
+			() => setLinkCopied(false),
+			COPIED_FEEDBACK_MS
+		);
+		return () => clearTimeout(timer);
+	}, [linkCopied]);
+
+	useEffect(() => {
+		const client = clientRef.current;
+		if (!client) return;
+
+		const controller = new AbortController();
+		setLoading(true);
+		setError(null);
+
+		client
+			.request('load', { encoding }, controller.signal)
+			.then(loaded => {
+				setLoadedEncoding(loaded.encoding);
+				setLoading(false);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
+				setError(err instanceof Error ? err.message : 'Unknown error');
+				setLoading(false);
+			});
+
+		return () => controller.abort();
+	}, [encoding]);
+
+	useEffect(() => {
+		const client = clientRef.current;
+		if (!client || loadedEncoding !== encoding) return;
+
+		// Aborted when the next keystroke supersedes this request
+		const controller = new AbortController();
+		setComputing(true);
+
+		client
+			.request(
+				'analyzeChat',
+				{
+					encoding,
+					model,
+					messages: messages.map(({ role, content }) => ({
+						role,
+						content
+					})),
+					tools: parsedTools.tools
+				},
+				controller.signal
+			)
+			.then(analysis => {
+				setResult(analysis);
+				setComputing(false);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
 				console.error('Tokenization error:', err);
-				setTokens([]);
-				setTokenIds([]);
-				setDecodedText('');
-				setIsVerified(false);
+				setResult(null);
+				setComputing(false);
+			});
+
+		return () => controller.abort();
+	}, [messages, model, parsedTools, encoding, loadedEncoding]);
+
+	// Results computed by a previously selected encoding are never shown
+	const current = result?.encoding === encoding ? result : null;
+	const tokens = current?.tokens ?? [];
+	const tokenIds = current?.tokenIds ?? [];
+	const special = current?.special ?? [];
+	const decodedText = current?.decodedText ?? '';
+	const isVerified = current?.isVerified ?? false;
+	const originalText = current?.formattedText ?? '';
+	const offsets = current?.offsets ?? [];
+	const messageIndex = current?.messageIndex ?? [];
+	const hovered =
+		hoveredToken !== null ? (offsets[hoveredToken] ?? null) : null;
+	// IDs belong to one encoding, so switching closes the inspector
+	const inspectedId =
+		inspectedToken?.encoding === encoding ? inspectedToken.id : null;
+	const inspect = (id: number) => setInspectedToken({ encoding, id });
+
+	// Selecting a model switches to its encoding; selecting an encoding keeps
+	// the model only if it uses that encoding
+	const selectModel = (name: string) => {
+		setModel(name);
+		setEncoding(getEncodingNameForModel(name));
+	};
+
+	const selectEncoding = (name: EncodingName) => {
+		setEncoding(name);
+		if (getEncodingNameForModel(model) !== name) {
+			const match = chatModels.find(
+				candidate => getEncodingNameForModel(candidate) === name
+			);
+			if (match) setModel(match);
+		}
+	};
+
+	const shareLink = async () => {
+		try {
+			const hash = await encodePermalinkHash({
+				messages,
+				encoding,
+				model,
+				view
+			});
+			const url = new URL(window.location.href);
+			url.hash = hash;
+			const link = url.toString();
+
+			if (link.length > MAX_PERMALINK_LENGTH) {
+				setShareNotice({
+					variant: 'default',
+					message: `This conversation is too large to share as a link: it needs ${link.length.toLocaleString()} characters, and links over ${MAX_PERMALINK_LENGTH.toLocaleString()} are cut off by many apps. Shorten the messages, or share an export instead.`
+				});
+				return;
 			}
+
+			window.history.replaceState(null, '', link);
+			await navigator.clipboard.writeText(link);
+			setLinkCopied(true);
+			setShareNotice(null);
+		} catch (err) {
+			setShareNotice({
+				variant: 'destructive',
+				message: `Could not create a share link: ${
+					err instanceof Error ? err.message : 'Unknown error'
+				}`
+			});
 		}
-	}, [systemText, userText, tokenizer]);
+	};
+
+	// Label shown before the first token of each message
+	const messageBoundary = (index: number) => {
+		const message = messageIndex[index];
+		if (message < 0 || message === messageIndex[index - 1]) return null;
+		return (
+			<span className='flex items-center gap-1 basis-full text-xs font-medium text-muted-foreground border-t pt-1 first:border-t-0 first:pt-0'>
+				#{message + 1} {messages[message]?.role}
+			</span>
+		);
+	};
+
+	// Checked against the model the result was formatted for; plain prompts
+	// have no chat model to check against
+	const fit = current?.model
+		? checkContextFit(current.tokenCount, current.model)
+		: null;
+	const windowUsage = fit ? fit.promptTokens / fit.contextWindow : 0;
+	// Where the text crosses the window. Tool definitions are billed but not
+	// part of the text, so the limit index shifts by the difference.
+	const overflowStart =
+		current && fit && !fit.fits
+			? (offsets[
+					Math.max(
+						0,
+						fit.contextWindow - (current.tokenCount - tokens.length)
+					)
+				]?.start ?? null)
+			: null;
+
+	// Formatted text split at the hovered token and the window limit
+	const renderFormattedText = () => {
+		const cuts = [0, originalText.length];
+		if (hovered) cuts.push(hovered.start, hovered.end);
+		if (overflowStart !== null) cuts.push(overflowStart);
+		const points = [...new Set(cuts)].sort((a, b) => a - b);
+
+		return points.slice(0, -1).map((start, i) => {
+			const end = points[i + 1];
+			const segment = originalText.slice(start, end);
+			const isHovered =
+				hovered !== null &&
+				start >= hovered.start &&
+				end <= hovered.end;
+			const isOverflow = overflowStart !== null && start >= overflowStart;
+
+			if (isHovered) {
+				return (
+					<mark
+						key={start}
+						className='rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-700'
+					>
+						{segment}
+					</mark>
+				);
+			}
+			return isOverflow ? (
+				<span
+					key={start}
+					className='bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300'
+				>
+					{segment}
+				</span>
+			) : (
+				<Fragment key={start}>{segment}</Fragment>
+			);
+		});
+	};
+
+	const describeToken = (index: number) => {
+		const offset = offsets[index];
+		if (!offset) return `Token ${index}`;
+		return `Token ${index}: chars ${offset.start}–${offset.end}, bytes ${offset.byteStart}–${offset.byteEnd}${
+			offset.partial ? ' (partial character)' : ''
+		}`;
+	};
 
-	if (loading) {
+	if (loading && !loadedEncoding) {
 		return (
 			<div className='flex items-center justify-center min-h-screen'>
 				<div className='flex items-center gap-3 animate-pulse'>
@@ -135,7 +420,7 @@ export default function GPTTokenizerDemo() {
 		);
 	}
 
-	if (error) {
+	if (error && !loadedEncoding) {
 		return (
 			<div className='max-w-4xl mx-auto p-6'>
 				<Alert
@@ -151,11 +436,8 @@ export default function GPTTokenizerDemo() {
 		);
 	}
 
-	const originalText =
-		tokenizer?.formatChatMessages(systemText, userText) || '';
-
 	const getTokenColor = (token: string, index: number) => {
-		if (tokenizer?.isSpecialToken(token)) {
+		if (special[index]) {
 			if (token === '<|im_start|>' || token === '<|im_end|>') {
 				return 'bg-[var(--token-purple-bg)] text-[var(--token-purple-text)] border-[var(--token-purple-border)] hover:bg-[var(--token-purple-hover)]';
 			}
@@ -190,8 +472,50 @@ export default function GPTTokenizerDemo() {
 
 	return (
 		<div className='max-w-6xl mx-auto p-6 space-y-8 animate-in fade-in-0 slide-in-from-bottom-5 duration-700'>
-			{/* Theme Toggle Dropdown */}
-			<div className='flex justify-end items-center mb-2'>
+			{/* Navigation, Model, Encoding and Theme Dropdowns */}
+			<div className='flex justify-end items-center gap-3 mb-2'>
+				<Button variant='ghost' size='sm' className='mr-auto' asChild>
+					<Link href='/vocab'>
+						<BookOpen />
+						Vocabulary
+					</Link>
+				</Button>
+				{loading && (
+					<Loader2 className='h-4 w-4 animate-spin text-blue-500' />
+				)}
+				<Button variant='outline' size='sm' onClick={shareLink}>
+					{linkCopied ? <Check /> : <Link2 />}
+					{linkCopied ? 'Link copied' : 'Share'}
+				</Button>
+				<Select
+					value={encoding}
+					onValueChange={value => {
+						if (isEncodingName(value)) selectEncoding(value);
+					}}
+				>
+					<SelectTrigger className='w-40'>
+						<SelectValue placeholder='Encoding' />
+					</SelectTrigger>
+					<SelectContent>
+						{Object.keys(encodings).map(name => (
+							<SelectItem key={name} value={name}>
+								<span className='font-mono'>{name}</span>
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select value={model} onValueChange={selectModel}>
+					<SelectTrigger className='w-44'>
+						<SelectValue placeholder='Model' />
+					</SelectTrigger>
+					<SelectContent>
+						{chatModels.map(name => (
+							<SelectItem key={name} value={name}>
+								<span className='font-mono'>{name}</span>
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
 				<Select value={theme} onValueChange={setTheme}>
 					<SelectTrigger className='w-36'>
 						<SelectValue placeholder='Theme' />
@@ -218,265 +542,419 @@ export default function GPTTokenizerDemo() {
 					</SelectContent>
 				</Select>
 			</div>
+			{error && (
+				<Alert variant='destructive'>
+					<XCircle className='h-4 w-4' />
+					<AlertDescription>Error: {error}</AlertDescription>
+				</Alert>
+			)}
+			{shareNotice && (
+				<Alert variant={shareNotice.variant}>
+					{shareNotice.variant === 'destructive' ? (
+						<XCircle className='h-4 w-4' />
+					) : (
+						<AlertTriangle className='h-4 w-4' />
+					)}
+					<AlertDescription>{shareNotice.message}</AlertDescription>
+				</Alert>
+			)}
 			<div className='text-center animate-in slide-in-from-top-3 duration-500'>
 				<h1 className='text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent animate-in zoom-in-50 duration-700 hover:scale-105 transition-transform cursor-default'>
 					GPT Tokenizer Demo
 				</h1>
 				<p className='text-muted-foreground mt-3 animate-in slide-in-from-top-5 delay-200 duration-500 hover:scale-105 transition-all cursor-default'>
-					Test encoding and decoding with system and user messages
+					Test encoding and decoding of multi-turn conversations
 				</p>
 				<div className='mt-4 w-32 h-1 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full mx-auto animate-in slide-in-from-left-5 delay-300 duration-500'></div>
 			</div>
 
-			<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
-				<Card className='animate-in slide-in-from-left-5 delay-300 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-					<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-						<CardTitle className='flex items-center gap-3'>
-							<div className='w-3 h-3 bg-blue-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-							<span className='group-hover:text-blue-600 transition-colors duration-300'>
-								Input Messages
-							</span>
-						</CardTitle>
-						<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-							Enter system and user messages to tokenize
-						</CardDescription>
-					</CardHeader>
-					<CardContent className='space-y-6'>
-						<div className='animate-in slide-in-from-left-5 delay-400 duration-500'>
-							<Label
-								htmlFor='system-text'
-								className='text-sm font-medium hover:text-blue-600 transition-colors duration-200'
-							>
-								System Message
-							</Label>
-							<div className='mt-2'>
-								<Textarea
-									id='system-text'
-									value={systemText}
-									onChange={e =>
-										setSystemText(e.target.value)
+			<Tabs value={view} onValueChange={setView} className='gap-8'>
+				<TabsList className='mx-auto'>
+					<TabsTrigger value='tokenize'>Tokenize</TabsTrigger>
+					<TabsTrigger value='chunk'>Chunk</TabsTrigger>
+					<TabsTrigger value='compare'>Compare</TabsTrigger>
+					<TabsTrigger value='files'>Files</TabsTrigger>
+				</TabsList>
+
+				<TabsContent value='tokenize' className='space-y-8'>
+					<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
+						<Card className='animate-in slide-in-from-left-5 delay-300 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+							<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+								<CardTitle className='flex items-center gap-3'>
+									<div className='w-3 h-3 bg-blue-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+									<span className='group-hover:text-blue-600 transition-colors duration-300'>
+										Input Messages
+									</span>
+								</CardTitle>
+								<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+									{current && !current.model
+										? `${encoding} has no chat format, so messages are joined as a plain prompt`
+										: 'Build a conversation to tokenize. Counts include per-message overhead'}
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<ConversationEditor
+									messages={messages}
+									onChange={setMessages}
+									messageTokens={
+										current?.messageTokens ?? null
 									}
-									placeholder='Enter system message...'
-									className='min-h-[90px] transition-all duration-300 focus:ring-2 focus:ring-blue-500 focus:scale-[1.02] hover:shadow-md'
-								/>
-							</div>
-						</div>
-						<div className='animate-in slide-in-from-left-5 delay-500 duration-500'>
-							<Label
-								htmlFor='user-text'
-								className='text-sm font-medium hover:text-blue-600 transition-colors duration-200'
-							>
-								User Message
-							</Label>
-							<div className='mt-2'>
-								<Textarea
-									id='user-text'
-									value={userText}
-									onChange={e => setUserText(e.target.value)}
-									placeholder='Enter user message...'
-									className='min-h-[90px] transition-all duration-300 focus:ring-2 focus:ring-blue-500 focus:scale-[1.02] hover:shadow-md'
+									totalTokens={current?.tokenCount ?? null}
 								/>
-							</div>
-						</div>
-					</CardContent>
-				</Card>
-
-				<Card className='animate-in slide-in-from-right-5 delay-300 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-					<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-						<CardTitle className='flex items-center gap-3'>
-							<div className='w-3 h-3 bg-green-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-							<span className='group-hover:text-green-600 transition-colors duration-300'>
-								Statistics & Verification
-							</span>
-						</CardTitle>
-						<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-							Token statistics and encoding verification
-						</CardDescription>
-					</CardHeader>
-					<CardContent>
-						<div className='grid grid-cols-2 gap-6 mb-6'>
-							<div className='text-center p-5 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg transform transition-transform duration-300 hover:scale-105 hover:rotate-1 cursor-pointer group/stat'>
-								<div className='text-4xl font-bold text-blue-600 transition-transform duration-300 group-hover/stat:scale-110'>
-									{originalText.length}
-								</div>
-								<div className='text-sm text-blue-600 transition-colors duration-300 group-hover/stat:font-semibold'>
-									Characters
+							</CardContent>
+						</Card>
+
+						<Card className='animate-in slide-in-from-right-5 delay-300 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+							<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+								<CardTitle className='flex items-center gap-3'>
+									<div className='w-3 h-3 bg-green-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+									<span className='group-hover:text-green-600 transition-colors duration-300'>
+										Statistics & Verification
+									</span>
+									{computing && (
+										<span className='ml-auto flex items-center gap-2 text-xs font-normal text-muted-foreground'>
+											<Loader2 className='h-3 w-3 animate-spin' />
+											Computing...
+										</span>
+									)}
+								</CardTitle>
+								<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+									Token statistics and encoding verification
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<div className='grid grid-cols-2 gap-6 mb-6'>
+									<div className='text-center p-5 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg transform transition-transform duration-300 hover:scale-105 hover:rotate-1 cursor-pointer group/stat'>
+										<div className='text-4xl font-bold text-blue-600 transition-transform duration-300 group-hover/stat:scale-110'>
+											{originalText.length}
+										</div>
+										<div className='text-sm text-blue-600 transition-colors duration-300 group-hover/stat:font-semibold'>
+											Characters
+										</div>
+									</div>
+									<div className='text-center p-5 bg-gradient-to-br from-green-50 to-green-100 rounded-lg transform transition-transform duration-300 hover:scale-105 hover:rotate-[-1deg] cursor-pointer group/stat'>
+										<div className='text-4xl font-bold text-green-600 transition-transform duration-300 group-hover/stat:scale-110'>
+											{tokens.length}
+										</div>
+										<div className='text-sm text-green-600 transition-colors duration-300 group-hover/stat:font-semibold'>
+											Tokens
+										</div>
+									</div>
 								</div>
-							</div>
-							<div className='text-center p-5 bg-gradient-to-br from-green-50 to-green-100 rounded-lg transform transition-transform duration-300 hover:scale-105 hover:rotate-[-1deg] cursor-pointer group/stat'>
-								<div className='text-4xl font-bold text-green-600 transition-transform duration-300 group-hover/stat:scale-110'>
-									{tokens.length}
+
+								<div
+									className={`flex items-center gap-3 p-5 rounded-lg border animate-in slide-in-from-bottom-3 delay-800 duration-500 transition-all hover:scale-105 hover:shadow-lg cursor-pointer ${
+										isVerified
+											? 'bg-green-50 border-green-200 hover:bg-green-100'
+											: 'bg-red-50 border-red-200 hover:bg-red-100'
+									}`}
+								>
+									{isVerified ? (
+										<CheckCircle className='h-6 w-6 text-green-500 animate-bounce hover:animate-spin transition-all' />
+									) : (
+										<XCircle className='h-6 w-6 text-red-500 animate-pulse hover:animate-ping transition-all' />
+									)}
+									<span
+										className={`font-medium transition-all hover:font-bold ${
+											isVerified
+												? 'text-green-700'
+												: 'text-red-700'
+										}`}
+									>
+										{isVerified
+											? 'Encoding verified ✓'
+											: 'Encoding mismatch ✗'}
+									</span>
 								</div>
-								<div className='text-sm text-green-600 transition-colors duration-300 group-hover/stat:font-semibold'>
-									Tokens
+
+								<div className='mt-6 animate-in slide-in-from-bottom-5 delay-900 duration-500'>
+									<Label className='text-sm font-medium flex items-center gap-2 hover:text-purple-600 transition-colors'>
+										<div className='w-2 h-2 bg-purple-500 rounded-full animate-pulse hover:animate-bounce'></div>
+										Special Tokens Used
+									</Label>
+									<div className='mt-2 text-sm text-muted-foreground hover:text-purple-600 transition-colors'>
+										<span className='font-semibold text-purple-600 animate-pulse hover:animate-bounce inline-block'>
+											{special.filter(Boolean).length}
+										</span>{' '}
+										special tokens detected
+									</div>
 								</div>
-							</div>
-						</div>
 
-						<div
-							className={`flex items-center gap-3 p-5 rounded-lg border animate-in slide-in-from-bottom-3 delay-800 duration-500 transition-all hover:scale-105 hover:shadow-lg cursor-pointer ${
-								isVerified
-									? 'bg-green-50 border-green-200 hover:bg-green-100'
-									: 'bg-red-50 border-red-200 hover:bg-red-100'
-							}`}
-						>
-							{isVerified ? (
-								<CheckCircle className='h-6 w-6 text-green-500 animate-bounce hover:animate-spin transition-all' />
-							) : (
-								<XCircle className='h-6 w-6 text-red-500 animate-pulse hover:animate-ping transition-all' />
-							)}
-							<span
-								className={`font-medium transition-all hover:font-bold ${
-									isVerified
-										? 'text-green-700'
-										: 'text-red-700'
-								}`}
-							>
-								{isVerified
-									? 'Encoding verified ✓'
-									: 'Encoding mismatch ✗'}
-							</span>
-						</div>
-
-						<div className='mt-6 animate-in slide-in-from-bottom-5 delay-900 duration-500'>
-							<Label className='text-sm font-medium flex items-center gap-2 hover:text-purple-600 transition-colors'>
-								<div className='w-2 h-2 bg-purple-500 rounded-full animate-pulse hover:animate-bounce'></div>
-								Special Tokens Used
-							</Label>
-							<div className='mt-2 text-sm text-muted-foreground hover:text-purple-600 transition-colors'>
-								<span className='font-semibold text-purple-600 animate-pulse hover:animate-bounce inline-block'>
-									{
-										tokens.filter(token =>
-											tokenizer?.isSpecialToken(token)
-										).length
-									}
-								</span>{' '}
-								special tokens detected
+								{fit && current && (
+									<div className='mt-6 space-y-2'>
+										<div className='flex items-center justify-between text-sm'>
+											<span className='font-medium'>
+												Context window ({current.model})
+											</span>
+											<span className='font-mono text-muted-foreground'>
+												{fit.promptTokens.toLocaleString()}{' '}
+												/{' '}
+												{fit.contextWindow.toLocaleString()}
+											</span>
+										</div>
+										<div className='h-2 rounded-full bg-muted overflow-hidden'>
+											<div
+												className={`h-full rounded-full transition-all duration-500 ${
+													!fit.fits
+														? 'bg-red-500'
+														: windowUsage >= 0.9
+															? 'bg-amber-500'
+															: 'bg-green-500'
+												}`}
+												style={{
+													width: `${Math.min(100, windowUsage * 100)}%`
+												}}
+											/>
+										</div>
+										<div className='text-xs text-muted-foreground'>
+											{fit.availableOutputTokens.toLocaleString()}{' '}
+											tokens left for the reply (max
+											output{' '}
+											{fit.maxOutputTokens.toLocaleString()}
+											)
+										</div>
+										{!fit.fits ? (
+											<Alert variant='destructive'>
+												<XCircle className='h-4 w-4' />
+												<AlertDescription>
+													The prompt exceeds the
+													context window by{' '}
+													{(-fit.remainingTokens).toLocaleString()}{' '}
+													tokens. Text past the limit
+													is highlighted below.
+												</AlertDescription>
+											</Alert>
+										) : (
+											windowUsage >= 0.9 && (
+												<Alert>
+													<AlertTriangle className='h-4 w-4 text-amber-500' />
+													<AlertDescription>
+														The prompt uses{' '}
+														{Math.round(
+															windowUsage * 100
+														)}
+														% of the context window.
+													</AlertDescription>
+												</Alert>
+											)
+										)}
+									</div>
+								)}
+							</CardContent>
+						</Card>
+					</div>
+
+					<ToolsPanel
+						json={toolsJson}
+						onJsonChange={setToolsJson}
+						tools={parsedTools.tools}
+						error={parsedTools.error}
+						count={current?.tools ?? null}
+						promptTokens={current?.toolTokens ?? 0}
+						computing={computing}
+					/>
+
+					<CostPanel
+						model={model}
+						promptTokens={current?.tokenCount ?? null}
+						prices={prices}
+						onPricesChange={setPrices}
+					/>
+
+					<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+						<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+							<CardTitle className='flex items-center gap-3'>
+								<div className='w-3 h-3 bg-purple-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+								<span className='group-hover:text-purple-600 transition-colors duration-300'>
+									Formatted Input Text
+								</span>
+							</CardTitle>
+							<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+								Text with special tokens as sent to the model.
+								Hover a token to locate it
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<div className='p-5 bg-accent rounded-lg font-mono text-sm whitespace-pre-wrap break-all border animate-in fade-in-0 delay-1000 duration-500 hover:shadow-inner hover:scale-[1.01] transition-all cursor-text'>
+								{renderFormattedText()}
 							</div>
-						</div>
-					</CardContent>
-				</Card>
-			</div>
+						</CardContent>
+					</Card>
+
+					<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
+						<Card className='animate-in slide-in-from-left-5 delay-500 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+							<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+								<CardTitle className='flex items-center gap-3'>
+									<div className='w-3 h-3 bg-cyan-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+									<span className='group-hover:text-cyan-600 transition-colors duration-300'>
+										Tokens ({tokens.length})
+									</span>
+									{computing && (
+										<Loader2 className='ml-auto h-4 w-4 animate-spin text-muted-foreground' />
+									)}
+								</CardTitle>
+								<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+									Individual tokens from BPE encoding. Click
+									one to inspect it
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<div className='max-h-80 overflow-y-auto hover:max-h-96 transition-all duration-500'>
+									<div className='flex flex-wrap gap-2 p-3'>
+										{tokens.map((token, index) => (
+											<Fragment key={index}>
+												{messageBoundary(index)}
+												<Badge
+													className={`font-mono text-xs transition-all duration-500 hover:scale-125 hover:-rotate-2 hover:shadow-lg hover:z-10 cursor-pointer animate-in fade-in-0 slide-in-from-bottom-2 border relative group/token ${getTokenColor(
+														token,
+														index
+													)} ${tokenIds[index] === inspectedId ? 'ring-2 ring-lime-500' : ''}`}
+													style={{
+														animationDelay: `${
+															index * 30 + 1100
+														}ms`
+													}}
+													title={`${describeToken(index)}\n"${token}"`}
+													onClick={() =>
+														inspect(tokenIds[index])
+													}
+													onMouseEnter={() =>
+														setHoveredToken(index)
+													}
+													onMouseLeave={() =>
+														setHoveredToken(null)
+													}
+												>
+													<span className='group-hover/token:animate-pulse'>
+														{token
+															.replace(/\s/g, '·')
+															.replace(
+																/\n/g,
+																'↵'
+															)}
+													</span>
+												</Badge>
+											</Fragment>
+										))}
+									</div>
+								</div>
+							</CardContent>
+						</Card>
 
-			<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-				<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-					<CardTitle className='flex items-center gap-3'>
-						<div className='w-3 h-3 bg-purple-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-						<span className='group-hover:text-purple-600 transition-colors duration-300'>
-							Formatted Input Text
-						</span>
-					</CardTitle>
-					<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-						Text with special tokens as sent to the model
-					</CardDescription>
-				</CardHeader>
-				<CardContent>
-					<div className='p-5 bg-accent rounded-lg font-mono text-sm whitespace-pre-wrap break-all border animate-in fade-in-0 delay-1000 duration-500 hover:shadow-inner hover:scale-[1.01] transition-all cursor-text'>
-						{originalText}
+						<Card className='animate-in slide-in-from-right-5 delay-500 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+							<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+								<CardTitle className='flex items-center gap-3'>
+									<div className='w-3 h-3 bg-orange-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+									<span className='group-hover:text-orange-600 transition-colors duration-300'>
+										Token IDs ({tokenIds.length})
+									</span>
+									{computing && (
+										<Loader2 className='ml-auto h-4 w-4 animate-spin text-muted-foreground' />
+									)}
+								</CardTitle>
+								<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+									Numeric token identifiers
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<div className='max-h-80 overflow-y-auto hover:max-h-96 transition-all duration-500'>
+									<div className='flex flex-wrap gap-2 p-3'>
+										{tokenIds.map((id, index) => (
+											<Fragment key={index}>
+												{messageBoundary(index)}
+												<Badge
+													className={`font-mono text-xs transition-all duration-500 hover:scale-125 hover:rotate-2 hover:shadow-lg hover:z-10 cursor-pointer animate-in fade-in-0 slide-in-from-bottom-2 border relative group/token ${getTokenIdColor(
+														id,
+														index
+													)} ${id === inspectedId ? 'ring-2 ring-lime-500' : ''}`}
+													style={{
+														animationDelay: `${
+															index * 30 + 1100
+														}ms`
+													}}
+													title={`${describeToken(index)}\n"${tokens[index]}" → ${id}`}
+													onClick={() => inspect(id)}
+													onMouseEnter={() =>
+														setHoveredToken(index)
+													}
+													onMouseLeave={() =>
+														setHoveredToken(null)
+													}
+												>
+													<span className='group-hover/token:animate-pulse'>
+														{id}
+													</span>
+												</Badge>
+											</Fragment>
+										))}
+									</div>
+								</div>
+							</CardContent>
+						</Card>
 					</div>
-				</CardContent>
-			</Card>
-
-			<div className='grid grid-cols-1 lg:grid-cols-2 gap-8'>
-				<Card className='animate-in slide-in-from-left-5 delay-500 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-					<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-						<CardTitle className='flex items-center gap-3'>
-							<div className='w-3 h-3 bg-cyan-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-							<span className='group-hover:text-cyan-600 transition-colors duration-300'>
-								Tokens ({tokens.length})
-							</span>
-						</CardTitle>
-						<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-							Individual tokens from BPE encoding
-						</CardDescription>
-					</CardHeader>
-					<CardContent>
-						<div className='max-h-80 overflow-y-auto hover:max-h-96 transition-all duration-500'>
-							<div className='flex flex-wrap gap-2 p-3'>
-								{tokens.map((token, index) => (
-									<Badge
-										key={index}
-										className={`font-mono text-xs transition-all duration-500 hover:scale-125 hover:-rotate-2 hover:shadow-lg hover:z-10 cursor-pointer animate-in fade-in-0 slide-in-from-bottom-2 border relative group/token ${getTokenColor(
-											token,
-											index
-										)}`}
-										style={{
-											animationDelay: `${
-												index * 30 + 1100
-											}ms`
-										}}
-										title={`Token ${index}: "${token}"`}
-									>
-										<span className='group-hover/token:animate-pulse'>
-											{token
-												.replace(/\s/g, '·')
-												.replace(/\n/g, '↵')}
-										</span>
-									</Badge>
-								))}
-							</div>
-						</div>
-					</CardContent>
-				</Card>
-
-				<Card className='animate-in slide-in-from-right-5 delay-500 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-					<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-						<CardTitle className='flex items-center gap-3'>
-							<div className='w-3 h-3 bg-orange-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-							<span className='group-hover:text-orange-600 transition-colors duration-300'>
-								Token IDs ({tokenIds.length})
-							</span>
-						</CardTitle>
-						<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-							Numeric token identifiers
-						</CardDescription>
-					</CardHeader>
-					<CardContent>
-						<div className='max-h-80 overflow-y-auto hover:max-h-96 transition-all duration-500'>
-							<div className='flex flex-wrap gap-2 p-3'>
-								{tokenIds.map((id, index) => (
-									<Badge
-										key={index}
-										className={`font-mono text-xs transition-all duration-500 hover:scale-125 hover:rotate-2 hover:shadow-lg hover:z-10 cursor-pointer animate-in fade-in-0 slide-in-from-bottom-2 border relative group/token ${getTokenIdColor(
-											id,
-											index
-										)}`}
-										style={{
-											animationDelay: `${
-												index * 30 + 1100
-											}ms`
-										}}
-										title={`Token ${index}: "${tokens[index]}" → ${id}`}
-									>
-										<span className='group-hover/token:animate-pulse'>
-											{id}
-										</span>
-									</Badge>
-								))}
+
+					<ExportPanel analysis={current} />
+
+					{inspectedId !== null && (
+						<TokenInspector
+							client={clientRef.current}
+							encoding={encoding}
+							ready={loadedEncoding === encoding}
+							tokenId={inspectedId}
+							onSelect={inspect}
+							onClose={() => setInspectedToken(null)}
+						/>
+					)}
+
+					<BpeVisualizer
+						client={clientRef.current}
+						encoding={encoding}
+						ready={loadedEncoding === encoding}
+						preTokens={current?.preTokens ?? []}
+					/>
+
+					<Card className='animate-in slide-in-from-bottom-5 delay-600 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+						<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+							<CardTitle className='flex items-center gap-3'>
+								<div className='w-3 h-3 bg-emerald-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+								<span className='group-hover:text-emerald-600 transition-colors duration-300'>
+									Decoded Text
+								</span>
+							</CardTitle>
+							<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+								Text reconstructed from token IDs
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<div className='p-5 bg-accent rounded-lg font-mono text-sm whitespace-pre-wrap break-all border animate-in fade-in-0 delay-1200 duration-500 hover:shadow-inner hover:scale-[1.01] transition-all cursor-text'>
+								{decodedText}
 							</div>
-						</div>
-					</CardContent>
-				</Card>
-			</div>
+						</CardContent>
+					</Card>
+				</TabsContent>
 
-			<Card className='animate-in slide-in-from-bottom-5 delay-600 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
-				<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
-					<CardTitle className='flex items-center gap-3'>
-						<div className='w-3 h-3 bg-emerald-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
-						<span className='group-hover:text-emerald-600 transition-colors duration-300'>
-							Decoded Text
-						</span>
-					</CardTitle>
-					<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
-						Text reconstructed from token IDs
-					</CardDescription>
-				</CardHeader>
-				<CardContent>
-					<div className='p-5 bg-accent rounded-lg font-mono text-sm whitespace-pre-wrap break-all border animate-in fade-in-0 delay-1200 duration-500 hover:shadow-inner hover:scale-[1.01] transition-all cursor-text'>
-						{decodedText}
-					</div>
-				</CardContent>
-			</Card>
+				<TabsContent value='chunk'>
+					<ChunkPanel
+						client={clientRef.current}
+						encoding={encoding}
+						ready={loadedEncoding === encoding}
+					/>
+				</TabsContent>
+
+				<TabsContent value='compare'>
+					<ComparePanel client={clientRef.current} />
+				</TabsContent>
+
+				<TabsContent value='files'>
+					<FilesPanel
+						client={clientRef.current}
+						encoding={encoding}
+						ready={loadedEncoding === encoding}
+						model={model}
+						prices={prices}
+					/>
+				</TabsContent>
+			</Tabs>
 
 			{/* Floating animation elements */}
 			<div
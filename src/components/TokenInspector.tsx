@@ -0,0 +1,197 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { showInvisibles } from '@/lib/utils';
+import { EncodingName } from '@/tokenizer/encodings';
+import type { TokenDetails, TokenVariant } from '@/tokenizer/gpt-tokenizer';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { Loader2, X, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const variantLabels: Record<TokenVariant, string> = {
+	leadingSpace: 'leading space',
+	case: 'case',
+	leadingSpaceAndCase: 'leading space + case'
+};
+
+function toHex(bytes: number[]): string {
+	return bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+interface TokenInspectorProps {
+	client: TokenizerWorkerClient | null;
+	encoding: EncodingName;
+	ready: boolean;
+	tokenId: number;
+	onSelect: (id: number) => void;
+	onClose: () => void;
+}
+
+export default function TokenInspector({
+	client,
+	encoding,
+	ready,
+	tokenId,
+	onSelect,
+	onClose
+}: TokenInspectorProps) {
+	const [details, setDetails] = useState<TokenDetails | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!client || !ready) return;
+
+		const controller = new AbortController();
+		setError(null);
+
+		client
+			.request(
+				'inspectToken',
+				{ encoding, id: tokenId },
+				controller.signal
+			)
+			.then(setDetails)
+			.catch(err => {
+				if (isAbortError(err)) return;
+				setError(err instanceof Error ? err.message : 'Unknown error');
+				setDetails(null);
+			});
+
+		return () => controller.abort();
+	}, [client, ready, encoding, tokenId]);
+
+	// The previous token stays on screen until the next one arrives
+	const loading = !error && details?.id !== tokenId;
+
+	return (
+		<Card className='animate-in slide-in-from-bottom-3 duration-500 hover:shadow-2xl transition-all group'>
+			<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-lime-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-lime-600 transition-colors duration-300'>
+						Token {tokenId}
+					</span>
+					{loading && (
+						<Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+					)}
+					<Button
+						variant='ghost'
+						size='icon'
+						className='ml-auto'
+						aria-label='Close inspector'
+						onClick={onClose}
+					>
+						<X />
+					</Button>
+				</CardTitle>
+				<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+					Vocabulary entry of the selected token
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				{error && (
+					<Alert variant='destructive'>
+						<XCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{details && (
+					<>
+						<dl className='grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-sm'>
+							<dt className='text-muted-foreground'>ID</dt>
+							<dd className='font-mono'>{details.id}</dd>
+							<dt className='text-muted-foreground'>
+								Merge rank
+							</dt>
+							<dd className='font-mono'>
+								{details.mergeRank ?? '—'}
+							</dd>
+							<dt className='text-muted-foreground'>Text</dt>
+							<dd className='font-mono whitespace-pre-wrap break-all'>
+								{details.special
+									? details.text
+									: showInvisibles(details.text)}
+							</dd>
+							<dt className='text-muted-foreground'>
+								Byte-level
+							</dt>
+							<dd className='font-mono break-all'>
+								{details.token}
+							</dd>
+							<dt className='text-muted-foreground'>
+								UTF-8 ({details.byteLength})
+							</dt>
+							<dd className='font-mono break-all'>
+								{toHex(details.bytes)}
+							</dd>
+							<dt className='text-muted-foreground'>Flags</dt>
+							<dd className='flex flex-wrap gap-2'>
+								<Badge
+									variant={
+										details.leadingSpace
+											? 'default'
+											: 'outline'
+									}
+								>
+									{details.leadingSpace
+										? 'Leading space'
+										: 'No leading space'}
+								</Badge>
+								<Badge
+									variant={
+										details.special ? 'default' : 'outline'
+									}
+								>
+									{details.special ? 'Special' : 'Ordinary'}
+								</Badge>
+							</dd>
+						</dl>
+
+						<div className='space-y-2'>
+							<div className='text-sm font-medium'>
+								Variants ({details.related.length})
+							</div>
+							{details.related.length > 0 ? (
+								<div className='flex flex-wrap gap-2'>
+									{details.related.map(entry => (
+										<button
+											key={entry.id}
+											type='button'
+											onClick={() => onSelect(entry.id)}
+											className='flex items-center gap-2 rounded border px-2 py-1 text-xs transition-colors hover:bg-accent'
+										>
+											<span className='font-mono'>
+												{showInvisibles(entry.text)}
+											</span>
+											<span className='font-mono text-muted-foreground'>
+												{entry.id}
+											</span>
+											<span className='text-muted-foreground'>
+												{variantLabels[entry.variant]}
+											</span>
+										</button>
+									))}
+								</div>
+							) : (
+								<p className='text-sm text-muted-foreground'>
+									No other token differs only by a leading
+									space or capitalization
+								</p>
+							)}
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
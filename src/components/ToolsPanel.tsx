@@ -0,0 +1,137 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToolDefinition, ToolTokenCount } from '@/tokenizer/tools';
+import { Loader2, XCircle } from 'lucide-react';
+
+export const sampleTools = JSON.stringify(
+	[
+		{
+			type: 'function',
+			function: {
+				name: 'get_weather',
+				description: 'Get the current weather for a city',
+				parameters: {
+					type: 'object',
+					properties: {
+						city: {
+							type: 'string',
+							description: 'City name, e.g. Paris'
+						},
+						unit: {
+							type: 'string',
+							enum: ['celsius', 'fahrenheit']
+						}
+					},
+					required: ['city']
+				}
+			}
+		}
+	],
+	null,
+	2
+);
+
+interface ToolsPanelProps {
+	json: string;
+	onJsonChange: (json: string) => void;
+	// Parsed from `json`, or the parse error
+	tools: ToolDefinition[];
+	error: string | null;
+	count: ToolTokenCount | null;
+	// Share of the prompt, after sharing the system message
+	promptTokens: number;
+	computing: boolean;
+}
+
+export default function ToolsPanel({
+	json,
+	onJsonChange,
+	tools,
+	error,
+	count,
+	promptTokens,
+	computing
+}: ToolsPanelProps) {
+	return (
+		<Card className='animate-in slide-in-from-bottom-3 delay-400 duration-500 hover:shadow-2xl hover:-translate-y-1 transition-all group'>
+			<CardHeader className='group-hover:translate-y-[-2px] transition-transform duration-300'>
+				<CardTitle className='flex items-center gap-3'>
+					<div className='w-3 h-3 bg-sky-500 rounded-full animate-pulse group-hover:animate-bounce'></div>
+					<span className='group-hover:text-sky-600 transition-colors duration-300'>
+						Tool Definitions
+					</span>
+					{computing && (
+						<Loader2 className='ml-auto h-4 w-4 animate-spin text-muted-foreground' />
+					)}
+				</CardTitle>
+				<CardDescription className='group-hover:text-gray-600 transition-colors duration-300'>
+					Paste the <code>tools</code> array of a request to see what
+					its schemas add to the prompt
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+				<div className='space-y-2'>
+					<Label htmlFor='tools-json'>Tools JSON</Label>
+					<Textarea
+						id='tools-json'
+						value={json}
+						onChange={e => onJsonChange(e.target.value)}
+						placeholder='[{ "type": "function", "function": { ... } }]'
+						className='min-h-[220px] font-mono text-xs'
+					/>
+					{error && (
+						<Alert variant='destructive'>
+							<XCircle className='h-4 w-4' />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+				</div>
+				<div className='space-y-2'>
+					<div className='flex flex-wrap items-center gap-2 text-sm'>
+						<span className='font-medium'>
+							As seen by the model
+						</span>
+						<Badge variant='secondary' className='font-mono'>
+							+{promptTokens} prompt tokens
+						</Badge>
+					</div>
+					{count ? (
+						<>
+							<div className='flex flex-wrap gap-2'>
+								{tools.map((tool, index) => (
+									<Badge
+										key={index}
+										variant='outline'
+										className='font-mono'
+									>
+										{tool.name}: {count.toolTokens[index]}
+									</Badge>
+								))}
+							</div>
+							<pre className='p-3 bg-accent rounded-md font-mono text-xs whitespace-pre-wrap break-all max-h-[220px] overflow-y-auto'>
+								{count.text}
+							</pre>
+						</>
+					) : (
+						<p className='text-sm text-muted-foreground'>
+							{tools.length > 0
+								? 'Tool definitions are only counted for chat models'
+								: 'No tools'}
+						</p>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
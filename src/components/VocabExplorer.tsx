@@ -0,0 +1,350 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue
+} from '@/components/ui/select';
+import { showInvisibles } from '@/lib/utils';
+import { EncodingName, encodings, isEncodingName } from '@/tokenizer/encodings';
+import type { VocabEntry } from '@/tokenizer/gpt-tokenizer';
+import { isAbortError, TokenizerWorkerClient } from '@/tokenizer/worker-client';
+import { ArrowLeft, Loader2, XCircle } from 'lucide-react';
+import Link from 'next/link';
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+
+type SearchMode = 'substring' | 'regex' | 'id';
+
+type VocabFilter = 'special' | 'whitespace' | 'leadingSpace' | 'nonAscii';
+
+const filters: Record<
+	VocabFilter,
+	{ label: string; matches: (entry: VocabEntry) => boolean }
+> = {
+	special: { label: 'Special', matches: entry => entry.special },
+	whitespace: {
+		label: 'Whitespace only',
+		matches: entry => !entry.special && /^\s+$/.test(entry.text)
+	},
+	leadingSpace: {
+		label: 'Leading space',
+		matches: entry => entry.text.startsWith(' ')
+	},
+	nonAscii: {
+		label: 'Non-ASCII',
+		matches: entry => /[^\x00-\x7f]/.test(entry.text)
+	}
+};
+
+// Rows are fixed height so only the visible window needs rendering
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+
+// Returns a predicate for the search, or an error message
+function searchPredicate(
+	query: string,
+	mode: SearchMode
+): ((entry: VocabEntry) => boolean) | string {
+	if (!query) return () => true;
+
+	switch (mode) {
+		case 'substring':
+			return entry => entry.text.includes(query);
+		case 'regex':
+			try {
+				const regex = new RegExp(query, 'u');
+				return entry => regex.test(entry.text);
+			} catch (err) {
+				return err instanceof Error ? err.message : 'Invalid regex';
+			}
+		case 'id': {
+			const ids = new Set(
+				query
+					.split(/[\s,]+/)
+					.filter(Boolean)
+					.map(Number)
+			);
+			if ([...ids].some(id => !Number.isInteger(id))) {
+				return 'IDs must be whole numbers separated by commas or spaces';
+			}
+			return entry => ids.has(entry.id);
+		}
+	}
+}
+
+export default function VocabExplorer() {
+	const [encoding, setEncoding] = useState<EncodingName>('cl100k_base');
+	const [entries, setEntries] = useState<VocabEntry[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [query, setQuery] = useState('');
+	const [mode, setMode] = useState<SearchMode>('substring');
+	const [activeFilters, setActiveFilters] = useState<VocabFilter[]>([]);
+	const [scrollTop, setScrollTop] = useState(0);
+	const clientRef = useRef<TokenizerWorkerClient | null>(null);
+	const viewportRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		const client = new TokenizerWorkerClient();
+		clientRef.current = client;
+		return () => {
+			client.terminate();
+			clientRef.current = null;
+		};
+	}, []);
+
+	useEffect(() => {
+		const client = clientRef.current;
+		if (!client) return;
+
+		const controller = new AbortController();
+		setLoading(true);
+		setError(null);
+
+		client
+			.request('vocab', { encoding }, controller.signal)
+			.then(result => {
+				setEntries(result.entries);
+				setLoading(false);
+			})
+			.catch(err => {
+				if (isAbortError(err)) return;
+				setError(err instanceof Error ? err.message : 'Unknown error');
+				setLoading(false);
+			});
+
+		return () => controller.abort();
+	}, [encoding]);
+
+	// Filtering 200k entries per keystroke lags typing, so it trails the input
+	const deferredQuery = useDeferredValue(query);
+
+	const { visibleEntries, searchError } = useMemo(() => {
+		const predicate = searchPredicate(deferredQuery, mode);
+		if (typeof predicate === 'string') {
+			return { visibleEntries: [], searchError: predicate };
+		}
+
+		const checks = activeFilters.map(filter => filters[filter].matches);
+		return {
+			visibleEntries: entries.filter(
+				entry => predicate(entry) && checks.every(check => check(entry))
+			),
+			searchError: null
+		};
+	}, [entries, deferredQuery, mode, activeFilters]);
+
+	// Jump back to the top whenever the result set changes
+	useEffect(() => {
+		viewportRef.current?.scrollTo({ top: 0 });
+		setScrollTop(0);
+	}, [visibleEntries]);
+
+	const toggleFilter = (filter: VocabFilter) => {
+		setActiveFilters(current =>
+			current.includes(filter)
+				? current.filter(active => active !== filter)
+				: [...current, filter]
+		);
+	};
+
+	const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+	const last = Math.min(
+		visibleEntries.length,
+		Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+	);
+
+	return (
+		<div className='max-w-6xl mx-auto p-6 space-y-8 animate-in fade-in-0 slide-in-from-bottom-5 duration-700'>
+			<div className='flex items-center gap-3'>
+				<Button variant='ghost' size='sm' asChild>
+					<Link href='/'>
+						<ArrowLeft />
+						Tokenizer
+					</Link>
+				</Button>
+				<div className='ml-auto flex items-center gap-3'>
+					{loading && (
+						<Loader2 className='h-4 w-4 animate-spin text-blue-500' />
+					)}
+					<Select
+						value={encoding}
+						onValueChange={value => {
+							if (isEncodingName(value)) setEncoding(value);
+						}}
+					>
+						<SelectTrigger className='w-40'>
+							<SelectValue placeholder='Encoding' />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.keys(encodings).map(name => (
+								<SelectItem key={name} value={name}>
+									<span className='font-mono'>{name}</span>
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className='text-center'>
+				<h1 className='text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent'>
+					Vocabulary Explorer
+				</h1>
+				<p className='text-muted-foreground mt-3'>
+					Every token of {encoding} with its bytes and merge rank
+				</p>
+			</div>
+
+			{error && (
+				<Alert variant='destructive'>
+					<XCircle className='h-4 w-4' />
+					<AlertDescription>Error: {error}</AlertDescription>
+				</Alert>
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center gap-3'>
+						<div className='w-3 h-3 bg-cyan-500 rounded-full animate-pulse'></div>
+						Tokens
+						<Badge variant='secondary' className='font-mono'>
+							{visibleEntries.length.toLocaleString()} of{' '}
+							{entries.length.toLocaleString()}
+						</Badge>
+					</CardTitle>
+					<CardDescription>
+						Search decoded text by substring or regex, or look up
+						IDs
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-4'>
+					<div className='flex flex-wrap items-center gap-3'>
+						<Select
+							value={mode}
+							onValueChange={value =>
+								setMode(value as SearchMode)
+							}
+						>
+							<SelectTrigger className='w-32'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='substring'>
+									Substring
+								</SelectItem>
+								<SelectItem value='regex'>Regex</SelectItem>
+								<SelectItem value='id'>ID</SelectItem>
+							</SelectContent>
+						</Select>
+						<Input
+							value={query}
+							onChange={e => setQuery(e.target.value)}
+							placeholder={
+								mode === 'id'
+									? '100, 2000, 30000'
+									: mode === 'regex'
+										? '^ [A-Z]'
+										: 'Search tokens...'
+							}
+							className='flex-1 min-w-48 font-mono'
+						/>
+					</div>
+					<div className='flex flex-wrap gap-2'>
+						{(Object.keys(filters) as VocabFilter[]).map(filter => (
+							<Button
+								key={filter}
+								size='sm'
+								variant={
+									activeFilters.includes(filter)
+										? 'default'
+										: 'outline'
+								}
+								aria-pressed={activeFilters.includes(filter)}
+								onClick={() => toggleFilter(filter)}
+							>
+								{filters[filter].label}
+							</Button>
+						))}
+					</div>
+					{searchError && (
+						<Alert variant='destructive'>
+							<XCircle className='h-4 w-4' />
+							<AlertDescription>{searchError}</AlertDescription>
+						</Alert>
+					)}
+
+					<div className='grid grid-cols-[6rem_1fr_1fr_5rem_7rem] gap-3 px-3 text-xs font-medium text-muted-foreground'>
+						<span>ID</span>
+						<span>Text</span>
+						<span>Byte-level</span>
+						<span className='text-right'>Bytes</span>
+						<span className='text-right'>Merge rank</span>
+					</div>
+					<div
+						ref={viewportRef}
+						className='overflow-y-auto rounded-lg border'
+						style={{ height: VIEWPORT_HEIGHT }}
+						onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+					>
+						<div
+							className='relative'
+							style={{
+								height: visibleEntries.length * ROW_HEIGHT
+							}}
+						>
+							{visibleEntries
+								.slice(first, last)
+								.map((entry, i) => (
+									<div
+										key={entry.id}
+										className='absolute inset-x-0 grid grid-cols-[6rem_1fr_1fr_5rem_7rem] items-center gap-3 px-3 text-sm border-b hover:bg-accent'
+										style={{
+											top: (first + i) * ROW_HEIGHT,
+											height: ROW_HEIGHT
+										}}
+									>
+										<span className='font-mono text-muted-foreground'>
+											{entry.id}
+										</span>
+										<span className='font-mono truncate'>
+											{entry.special ? (
+												<Badge className='font-mono text-xs bg-[var(--token-rose-bg)] text-[var(--token-rose-text)] border-[var(--token-rose-border)]'>
+													{entry.text}
+												</Badge>
+											) : (
+												showInvisibles(entry.text)
+											)}
+										</span>
+										<span className='font-mono truncate text-muted-foreground'>
+											{entry.token}
+										</span>
+										<span className='font-mono text-right'>
+											{entry.byteLength}
+										</span>
+										<span className='font-mono text-right text-muted-foreground'>
+											{entry.mergeRank ?? '—'}
+										</span>
+									</div>
+								))}
+						</div>
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
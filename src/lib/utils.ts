@@ -4,3 +4,32 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Makes whitespace and control characters in token text visible
+export function showInvisibles(text: string): string {
+  return text.replace(/[\x00-\x20\x7f]/g, char => {
+    switch (char) {
+      case " ":
+        return "·"
+      case "\n":
+        return "↵"
+      case "\t":
+        return "→"
+      case "\x7f":
+        return "␡"
+      default:
+        return String.fromCharCode(0x2400 + char.charCodeAt(0))
+    }
+  })
+}
+
+// Saves `content` through a temporary object URL
+export function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
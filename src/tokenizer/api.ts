@@ -0,0 +1,298 @@
+import { ChatMessage, ChatRole, chatRoles, getChatFormat } from './chat';
+import { EncodingName, encodings, getEncodingNameForModel, isEncodingName } from './encodings';
+import { DisallowedSpecialTokenError } from './errors';
+import type { EncodeOptions, GPTTokenizer, SpecialTokenSet } from './gpt-tokenizer';
+import { validateToolDefinitions } from './tools';
+
+// Request and response bodies of the HTTP API. Every endpoint takes a POST
+// with one request object, or with an array of them as a batch, which is
+// answered with an array of responses in the same order.
+//
+// Failures are answered with a 4xx/5xx status and an ApiErrorBody. A batch
+// fails as a whole, and the error message names the offending item.
+
+// Selects the encoding, directly or as the one `model` uses. Defaults to
+// cl100k_base; giving both is an error.
+export interface EncodingSelector {
+  encoding?: EncodingName;
+  model?: string;
+}
+
+// POST /api/encode. Special token policy as in EncodeOptions: text from
+// other services may contain special token text, so by default it is
+// rejected unless the caller allows it.
+export interface EncodeRequest extends EncodingSelector {
+  text: string;
+  allowedSpecial?: 'all' | string[];
+  disallowedSpecial?: 'all' | string[];
+}
+
+export interface EncodeResponse {
+  encoding: EncodingName;
+  tokenIds: number[];
+}
+
+// POST /api/decode
+export interface DecodeRequest extends EncodingSelector {
+  tokenIds: number[];
+}
+
+export interface DecodeResponse {
+  encoding: EncodingName;
+  text: string;
+}
+
+// POST /api/count
+export type CountRequest = EncodeRequest;
+
+export interface CountResponse {
+  encoding: EncodingName;
+  tokenCount: number;
+}
+
+// POST /api/chat/count. Tools may be bare definitions or wrapped as
+// `{ type: 'function', function: {...} }`, as in a chat completion request.
+export interface ChatCountRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: unknown[];
+}
+
+export interface ChatCountResponse {
+  model: string;
+  encoding: EncodingName;
+  // Billed prompt tokens, see FormattedChat
+  tokenCount: number;
+  messageTokens: number[];
+  toolTokens: number;
+}
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'unknown_encoding'
+  | 'unknown_model'
+  | 'invalid_token_id'
+  | 'disallowed_special_token'
+  | 'internal_error';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+export const apiLimits = {
+  // Whole request body, in bytes
+  maxBodyBytes: 1_000_000,
+  maxBatchSize: 100,
+  // Per text or message content, in characters
+  maxTextLength: 200_000,
+  // Per decode request
+  maxTokenIds: 100_000
+};
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The ApiError for a failure the client caused, or null for internal errors
+export function asApiError(err: unknown): ApiError | null {
+  if (err instanceof ApiError) return err;
+  if (err instanceof DisallowedSpecialTokenError) {
+    return new ApiError(400, 'disallowed_special_token', err.message);
+  }
+  return null;
+}
+
+export type LoadTokenizer = (encoding: EncodingName) => Promise<GPTTokenizer>;
+
+export type ApiHandler<T> = (request: unknown, load: LoadTokenizer) => Promise<T>;
+
+function invalid(message: string): ApiError {
+  return new ApiError(400, 'invalid_request', message);
+}
+
+function asObject(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(`${field} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkText(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(`${field} must be a string`);
+  }
+  if (value.length > apiLimits.maxTextLength) {
+    throw new ApiError(413, 'payload_too_large', `${field} exceeds ${apiLimits.maxTextLength} characters`);
+  }
+  return value;
+}
+
+function checkSpecialSet(value: unknown, field: string): SpecialTokenSet | undefined {
+  if (value === undefined || value === 'all') return value;
+  if (Array.isArray(value) && value.every(token => typeof token === 'string')) return value;
+  throw invalid(`${field} must be "all" or an array of strings`);
+}
+
+function resolveEncoding(request: Record<string, unknown>): EncodingName {
+  const { encoding, model } = request;
+  if (encoding !== undefined && model !== undefined) {
+    throw invalid('Give either encoding or model, not both');
+  }
+
+  if (model !== undefined) {
+    if (typeof model !== 'string') throw invalid('model must be a string');
+    try {
+      return getEncodingNameForModel(model);
+    } catch {
+      throw new ApiError(400, 'unknown_model', `Unknown model: ${model}`);
+    }
+  }
+
+  if (encoding === undefined) return 'cl100k_base';
+  if (typeof encoding !== 'string' || !isEncodingName(encoding)) {
+    throw new ApiError(
+      400,
+      'unknown_encoding',
+      `Unknown encoding: ${encoding}. Expected one of ${Object.keys(encodings).join(', ')}`
+    );
+  }
+  return encoding;
+}
+
+function encodeOptions(request: Record<string, unknown>): EncodeOptions {
+  return {
+    allowedSpecial: checkSpecialSet(request.allowedSpecial, 'allowedSpecial'),
+    disallowedSpecial: checkSpecialSet(request.disallowedSpecial, 'disallowedSpecial')
+  };
+}
+
+export const handleEncode: ApiHandler<EncodeResponse> = async (body, load) => {
+  const request = asObject(body, 'Request');
+  const encoding = resolveEncoding(request);
+  const text = checkText(request.text, 'text');
+  const options = encodeOptions(request);
+
+  const tokenizer = await load(encoding);
+  return { encoding, tokenIds: tokenizer.encode(text, options) };
+};
+
+export const handleCount: ApiHandler<CountResponse> = async (body, load) => {
+  const { encoding, tokenIds } = await handleEncode(body, load);
+  return { encoding, tokenCount: tokenIds.length };
+};
+
+export const handleDecode: ApiHandler<DecodeResponse> = async (body, load) => {
+  const request = asObject(body, 'Request');
+  const encoding = resolveEncoding(request);
+  const { tokenIds } = request;
+
+  if (!Array.isArray(tokenIds)) {
+    throw invalid('tokenIds must be an array of integers');
+  }
+  if (tokenIds.length > apiLimits.maxTokenIds) {
+    throw new ApiError(413, 'payload_too_large', `tokenIds exceeds ${apiLimits.maxTokenIds} IDs`);
+  }
+
+  const tokenizer = await load(encoding);
+  tokenIds.forEach((id, index) => {
+    if (!Number.isInteger(id) || !tokenizer.isValidTokenId(id)) {
+      throw new ApiError(400, 'invalid_token_id', `tokenIds[${index}]: ${JSON.stringify(id)} is not a token ID of ${encoding}`);
+    }
+  });
+
+  return { encoding, text: tokenizer.decode(tokenIds) };
+};
+
+export const handleChatCount: ApiHandler<ChatCountResponse> = async (body, load) => {
+  const request = asObject(body, 'Request');
+  const { model, messages, tools } = request;
+
+  if (typeof model !== 'string') {
+    throw invalid('model must be a string');
+  }
+  const encoding = resolveEncoding({ model });
+
+  if (!Array.isArray(messages)) {
+    throw invalid('messages must be an array');
+  }
+  const checked = messages.map((value, index): ChatMessage => {
+    const message = asObject(value, `messages[${index}]`);
+    if (!chatRoles.includes(message.role as ChatRole)) {
+      throw invalid(`messages[${index}].role must be one of ${chatRoles.join(', ')}`);
+    }
+    if (message.name !== undefined && typeof message.name !== 'string') {
+      throw invalid(`messages[${index}].name must be a string`);
+    }
+    return {
+      role: message.role as ChatRole,
+      content: checkText(message.content, `messages[${index}].content`),
+      name: message.name as string | undefined
+    };
+  });
+
+  if (tools !== undefined && !Array.isArray(tools)) {
+    throw invalid('tools must be an array');
+  }
+  let definitions;
+  try {
+    definitions = tools ? validateToolDefinitions(tools) : [];
+  } catch (err) {
+    throw invalid(err instanceof Error ? err.message : 'Invalid tools');
+  }
+
+  // Completion-only models have no chat format
+  try {
+    getChatFormat(model);
+  } catch (err) {
+    throw new ApiError(400, 'unknown_model', err instanceof Error ? err.message : `Model ${model} has no chat format`);
+  }
+
+  const tokenizer = await load(encoding);
+  const chat = tokenizer.formatChat(checked, model, definitions);
+
+  return {
+    model,
+    encoding,
+    tokenCount: chat.tokenCount,
+    messageTokens: chat.messageTokens,
+    toolTokens: chat.toolTokens
+  };
+};
+
+// Runs `handler` on a single request, or on each request of a batch
+export async function runApiRequest<T>(body: unknown, handler: ApiHandler<T>, load: LoadTokenizer): Promise<T | T[]> {
+  if (!Array.isArray(body)) {
+    return handler(body, load);
+  }
+
+  if (body.length === 0) {
+    throw invalid('Batch is empty');
+  }
+  if (body.length > apiLimits.maxBatchSize) {
+    throw new ApiError(413, 'payload_too_large', `Batch exceeds ${apiLimits.maxBatchSize} requests`);
+  }
+
+  const results: T[] = [];
+  for (const [index, request] of body.entries()) {
+    try {
+      results.push(await handler(request, load));
+    } catch (err) {
+      const apiError = asApiError(err);
+      if (!apiError) throw err;
+      throw new ApiError(apiError.status, apiError.code, `Request ${index}: ${apiError.message}`);
+    }
+  }
+  return results;
+}
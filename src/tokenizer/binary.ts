@@ -0,0 +1,195 @@
+import { bytesToUnicode } from './bytes';
+import { EncodingDefinition, encodings, isEncodingName } from './encodings';
+import type { TokenizerData } from './gpt-tokenizer';
+
+// Compact tokenizer asset, replacing the vocab.json + merges.txt pair.
+//
+// Layout (integers are little-endian, `varint` is unsigned LEB128):
+//   magic         4 bytes   'GPTB'
+//   version       uint8     1
+//   headerLength  uint32
+//   header        UTF-8 JSON, see BinaryHeader
+//   tokens        `tokenCount` entries in rank order, each
+//                   varint byte length (0 for an unused rank)
+//                   raw bytes
+//                   varint split offset, only for tokens of 2+ bytes: the
+//                   merge rule that builds the token joins bytes[0, split)
+//                   and bytes[split, length); 0 when it has no merge rule
+//
+// Merge rules are stored in the same rank order as the tokens they produce.
+
+const MAGIC = 'GPTB';
+const VERSION = 1;
+
+interface BinaryHeader {
+  name: string;
+  pattern: string;
+  flags: string;
+  specialTokens: Record<string, number>;
+  tokenCount: number;
+  mergeCount: number;
+}
+
+export interface TokenizerBinary {
+  data: TokenizerData;
+  encoding: EncodingDefinition;
+}
+
+export function serializeTokenizerData(data: TokenizerData, encoding: EncodingDefinition): Uint8Array {
+  const byteDecoder = new Map(bytesToUnicode().map((char, byte) => [char, byte]));
+  const toBytes = (token: string) => Array.from(token, char => {
+    const byte = byteDecoder.get(char);
+    if (byte === undefined) {
+      throw new Error(`Token ${JSON.stringify(token)} is not byte-level encoded`);
+    }
+    return byte;
+  });
+
+  // Regular tokens only; special tokens travel in the header
+  const specialNames = new Set(Object.keys(encoding.specialTokens));
+  const specialIds = new Set(Object.values(encoding.specialTokens));
+  const tokens: string[] = [];
+  for (const [token, id] of Object.entries(data.vocab)) {
+    if (!specialIds.has(id) && !specialNames.has(token)) {
+      tokens[id] = token;
+    }
+  }
+
+  const splits = new Map<string, number>();
+  let lastRank = -1;
+  for (const merge of data.merges) {
+    const [first, second] = merge.split(' ');
+    const rank = data.vocab[first + second];
+    if (rank === undefined) continue;
+    if (rank < lastRank) {
+      throw new Error(`Merge "${merge}" is out of rank order`);
+    }
+    lastRank = rank;
+    splits.set(first + second, toBytes(first).length);
+  }
+
+  const header: BinaryHeader = {
+    name: encoding.name,
+    pattern: encoding.pattern.source,
+    flags: encoding.pattern.flags,
+    specialTokens: encoding.specialTokens,
+    tokenCount: tokens.length,
+    mergeCount: splits.size
+  };
+
+  const out: number[] = [];
+  const writeVarint = (value: number) => {
+    while (value >= 0x80) {
+      out.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+    out.push(value);
+  };
+
+  for (let id = 0; id < tokens.length; id++) {
+    const token = tokens[id];
+    if (token === undefined) {
+      writeVarint(0);
+      continue;
+    }
+
+    const bytes = toBytes(token);
+    writeVarint(bytes.length);
+    out.push(...bytes);
+    if (bytes.length > 1) {
+      writeVarint(splits.get(token) ?? 0);
+    }
+  }
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const result = new Uint8Array(9 + headerBytes.length + out.length);
+  const view = new DataView(result.buffer);
+
+  result.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint8(4, VERSION);
+  view.setUint32(5, headerBytes.length, true);
+  result.set(headerBytes, 9);
+  result.set(out, 9 + headerBytes.length);
+
+  return result;
+}
+
+export function parseTokenizerBinary(buffer: ArrayBuffer): TokenizerBinary {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  if (bytes.length < 9 || new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error('Not a tokenizer binary');
+  }
+  if (view.getUint8(4) !== VERSION) {
+    throw new Error(`Unsupported tokenizer binary version ${view.getUint8(4)}`);
+  }
+
+  const headerLength = view.getUint32(5, true);
+  const header: BinaryHeader = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(9, 9 + headerLength))
+  );
+
+  if (!isEncodingName(header.name)) {
+    throw new Error(`Unknown encoding in tokenizer binary: ${header.name}`);
+  }
+
+  let offset = 9 + headerLength;
+  const readVarint = () => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= bytes.length) {
+        throw new Error('Truncated tokenizer binary');
+      }
+      byte = bytes[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  // One UTF-16 unit per byte, so token strings can be sliced at byte offsets
+  const charCodes = bytesToUnicode().map(char => char.charCodeAt(0));
+  const codes: number[] = [];
+  const encodeRange = (start: number, end: number) => {
+    codes.length = end - start;
+    for (let i = start; i < end; i++) {
+      codes[i - start] = charCodes[bytes[i]];
+    }
+    return String.fromCharCode(...codes);
+  };
+
+  const vocab: Record<string, number> = {};
+  const merges: string[] = [];
+
+  for (let id = 0; id < header.tokenCount; id++) {
+    const length = readVarint();
+    if (length === 0) continue;
+
+    const token = encodeRange(offset, offset + length);
+    offset += length;
+    vocab[token] = id;
+
+    if (length > 1) {
+      const split = readVarint();
+      if (split > 0) {
+        merges.push(`${token.slice(0, split)} ${token.slice(split)}`);
+      }
+    }
+  }
+
+  if (merges.length !== header.mergeCount) {
+    throw new Error('Corrupt tokenizer binary: merge count mismatch');
+  }
+
+  return {
+    data: { vocab, merges },
+    encoding: {
+      ...encodings[header.name],
+      pattern: new RegExp(header.pattern, header.flags),
+      specialTokens: header.specialTokens
+    }
+  };
+}
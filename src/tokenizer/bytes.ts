@@ -0,0 +1,53 @@
+// GPT-2's reversible byte-to-unicode table: printable bytes map to themselves
+// and the rest are shifted above U+0100 so every token is a visible string
+export function bytesToUnicode(): string[] {
+  const bytes: number[] = [];
+
+  // Add printable ASCII characters
+  for (let i = 33; i <= 126; i++) {
+    bytes.push(i);
+  }
+  for (let i = 161; i <= 172; i++) {
+    bytes.push(i);
+  }
+  for (let i = 174; i <= 255; i++) {
+    bytes.push(i);
+  }
+
+  const cs = bytes.slice();
+  let n = 0;
+
+  // Add remaining bytes with offset
+  for (let b = 0; b < 256; b++) {
+    if (!bytes.includes(b)) {
+      bytes.push(b);
+      cs.push(256 + n);
+      n++;
+    }
+  }
+
+  const table: string[] = [];
+  cs.forEach((c, i) => {
+    table[bytes[i]] = String.fromCharCode(c);
+  });
+  return table;
+}
+
+// btoa takes a binary string; build it in slices to bound argument counts
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+// Keeps a leading byte order mark: some tokens start with one, and text that
+// starts with one must decode back unchanged
+export function utf8Decoder(): TextDecoder {
+  return new TextDecoder('utf-8', { ignoreBOM: true });
+}
@@ -0,0 +1,116 @@
+import { matchModelPrefix } from './encodings';
+
+export type ChatRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+
+export const chatRoles: ChatRole[] = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  name?: string;
+}
+
+// How a model family renders a conversation and what it bills on top of the
+// message text, following OpenAI's `num_tokens_from_messages` accounting
+export interface ChatFormat {
+  // `chatml`: <|im_start|>role\ncontent<|im_end|>\n
+  // `chatml-sep`: <|im_start|>role<|im_sep|>content<|im_end|>
+  template: 'chatml' | 'chatml-sep';
+  tokensPerMessage: number;
+  // Added when a message has a `name`; -1 where the name replaces the role
+  tokensPerName: number;
+  // Tokens of the trailing <|im_start|>assistant header that primes the reply
+  replyPrimingTokens: number;
+}
+
+// A piece of a rendered conversation. Template pieces are written by the
+// formatter and hold its special tokens; the rest comes from the messages and
+// is encoded as ordinary text, each piece on its own as the API does.
+export interface ChatSegment {
+  text: string;
+  template: boolean;
+}
+
+export interface FormattedChat {
+  text: string;
+  // Concatenate to `text`
+  segments: ChatSegment[];
+  format: ChatFormat;
+  // Prompt tokens as billed: message text, tool definitions and all overhead
+  tokenCount: number;
+  // Parallel to the input messages, each including its own overhead
+  messageTokens: number[];
+  // Tool definitions with their overhead, 0 without tools
+  toolTokens: number;
+  // Parallel to the input messages: UTF-16 range of each in `text`
+  messageRanges: Array<{ start: number; end: number }>;
+}
+
+export interface TruncatedChat {
+  messages: ChatMessage[];
+  // Billed prompt tokens of the remaining messages
+  tokenCount: number;
+  droppedMessages: number;
+  truncated: boolean;
+}
+
+const legacyChatML: ChatFormat = {
+  template: 'chatml',
+  tokensPerMessage: 4,
+  tokensPerName: -1,
+  replyPrimingTokens: 3
+};
+
+const separatorChatML: ChatFormat = {
+  template: 'chatml-sep',
+  tokensPerMessage: 3,
+  tokensPerName: 1,
+  replyPrimingTokens: 3
+};
+
+// Matched with matchModelPrefix
+const chatFormats: Record<string, ChatFormat> = {
+  'gpt-3.5-turbo-0301': legacyChatML,
+  'gpt-3.5-turbo': separatorChatML,
+  'gpt-4': separatorChatML,
+  'gpt-4.1': separatorChatML,
+  'gpt-4.5': separatorChatML,
+  'gpt-4o': separatorChatML,
+  'o1': separatorChatML,
+  'o3': separatorChatML,
+  'o4': separatorChatML
+};
+
+export function getChatFormat(model: string): ChatFormat {
+  const format = matchModelPrefix(chatFormats, model);
+  if (!format) {
+    throw new Error(`Model ${model} has no chat format`);
+  }
+  return format;
+}
+
+const template = (text: string): ChatSegment => ({ text, template: true });
+const ordinary = (text: string): ChatSegment => ({ text, template: false });
+
+export function renderChatMessage(message: ChatMessage, format: ChatFormat): ChatSegment[] {
+  if (format.template === 'chatml') {
+    return [
+      template('<|im_start|>'),
+      ordinary(message.name ?? message.role),
+      template('\n'),
+      ordinary(message.content),
+      template('<|im_end|>\n')
+    ];
+  }
+
+  const author = message.name
+    ? [ordinary(message.role), template(':'), ordinary(message.name)]
+    : [ordinary(message.role)];
+  return [template('<|im_start|>'), ...author, template('<|im_sep|>'), ordinary(message.content), template('<|im_end|>')];
+}
+
+export function renderReplyPrimer(format: ChatFormat): ChatSegment[] {
+  return format.template === 'chatml'
+    ? [template('<|im_start|>'), ordinary('assistant'), template('\n')]
+    : [template('<|im_start|>'), ordinary('assistant'), template('<|im_sep|>')];
+}
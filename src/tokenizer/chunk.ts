@@ -0,0 +1,57 @@
+import type { EncodeOptions } from './gpt-tokenizer';
+
+export type ChunkBreak = 'paragraph' | 'sentence' | 'pretoken';
+
+export interface ChunkOptions extends EncodeOptions {
+  // Upper bound on tokens per chunk
+  maxTokens: number;
+  // Tokens repeated from the end of the previous chunk, below maxTokens
+  overlap?: number;
+  // Break points to look for, most preferred first. A chunk ends at the
+  // last such point in the second half of its window, and at any token
+  // boundary when none of them occur there.
+  breakOn?: ChunkBreak[];
+}
+
+export interface TextChunk {
+  text: string;
+  tokenIds: number[];
+  // UTF-16 range of `text` in the source
+  start: number;
+  end: number;
+}
+
+export const defaultChunkBreaks: ChunkBreak[] = ['paragraph', 'sentence', 'pretoken'];
+
+const breakStrength: Record<ChunkBreak, number> = {
+  pretoken: 1,
+  sentence: 2,
+  paragraph: 3
+};
+
+const SENTENCE_END = /[.!?。！？]/;
+const CLOSING = /["'”’)\]]/;
+
+// Strength of a break before `position`: 3 after a blank line, 2 after the
+// end of a sentence, 1 between pre-tokens and 0 elsewhere. Stronger breaks
+// also satisfy weaker preferences.
+export function breakLevel(text: string, position: number, isPreTokenStart: boolean): number {
+  let i = position;
+  let newlines = 0;
+  while (i > 0 && /\s/.test(text[i - 1])) {
+    if (text[i - 1] === '\n') newlines++;
+    i--;
+  }
+
+  if (newlines >= 2) return 3;
+
+  const spaced = i < position || position === text.length || /\s/.test(text[position]);
+  while (i > 0 && CLOSING.test(text[i - 1])) i--;
+  if (spaced && i > 0 && SENTENCE_END.test(text[i - 1])) return 2;
+
+  return isPreTokenStart ? 1 : 0;
+}
+
+export function matchesBreak(level: number, preference: ChunkBreak): boolean {
+  return level >= breakStrength[preference];
+}
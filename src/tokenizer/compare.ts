@@ -0,0 +1,157 @@
+import type { TokenOffset } from './gpt-tokenizer';
+
+// `same` regions are one identical token on each side, `split` regions hold
+// the same text tokenized differently and `changed` regions differ in text
+export type SegmentKind = 'same' | 'split' | 'changed';
+
+export interface TokenStream {
+  text: string;
+  offsets: TokenOffset[];
+}
+
+// Half-open range of token indexes into one side's offsets
+export interface TokenRange {
+  start: number;
+  end: number;
+}
+
+export interface AlignedSegment {
+  kind: SegmentKind;
+  left: TokenRange;
+  right: TokenRange;
+}
+
+// Word diffs above this many table cells treat the differing middle of the
+// two texts as one change instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+const WORD = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+interface Word {
+  text: string;
+  start: number;
+}
+
+function splitWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD), match => ({ text: match[0], start: match.index }));
+}
+
+// UTF-16 ranges of the two texts that hold the same words, in order, from
+// a longest common subsequence of their words
+function commonRuns(left: string, right: string): Array<{ left: number; right: number; length: number }> {
+  const a = splitWords(left);
+  const b = splitWords(right);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].text === b[prefix].text) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].text === b[b.length - 1 - suffix].text
+  ) {
+    suffix++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) pairs.push([i, i]);
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if (n > 0 && m > 0 && n * m <= MAX_DIFF_CELLS) {
+    // lengths[i * (m + 1) + j]: LCS length of the middle words from i and j on
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          a[prefix + i].text === b[prefix + j].text
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[prefix + i].text === b[prefix + j].text) {
+        pairs.push([prefix + i++, prefix + j++]);
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) pairs.push([a.length - k, b.length - k]);
+
+  // Adjacent word pairs join into runs
+  const runs: Array<{ left: number; right: number; length: number }> = [];
+  for (const [i, j] of pairs) {
+    const last = runs[runs.length - 1];
+    if (last && last.left + last.length === a[i].start && last.right + last.length === b[j].start) {
+      last.length += a[i].text.length;
+    } else {
+      runs.push({ left: a[i].start, right: b[j].start, length: a[i].text.length });
+    }
+  }
+  return runs;
+}
+
+// Positions between tokens; a partial character is never split
+function tokenBoundaries(stream: TokenStream): Set<number> {
+  const boundaries = new Set([0, stream.text.length]);
+  stream.offsets.forEach((offset, index) => {
+    const next = stream.offsets[index + 1];
+    if (!next || next.start >= offset.end) boundaries.add(offset.end);
+  });
+  return boundaries;
+}
+
+// Aligns two tokenizations, of the same or of different texts. Segments end
+// wherever both sides have a token boundary at corresponding positions of
+// text they share, so every token falls in exactly one segment.
+export function alignTokenStreams(left: TokenStream, right: TokenStream): AlignedSegment[] {
+  const leftBoundaries = tokenBoundaries(left);
+  const rightBoundaries = tokenBoundaries(right);
+
+  // Corresponding positions where both sides can be cut
+  const cuts: Array<[number, number]> = [[0, 0]];
+  for (const run of commonRuns(left.text, right.text)) {
+    for (let k = 0; k <= run.length; k++) {
+      if (leftBoundaries.has(run.left + k) && rightBoundaries.has(run.right + k)) {
+        cuts.push([run.left + k, run.right + k]);
+      }
+    }
+  }
+  cuts.push([left.text.length, right.text.length]);
+
+  const segments: AlignedSegment[] = [];
+  let leftToken = 0;
+  let rightToken = 0;
+  let [leftStart, rightStart] = cuts[0];
+
+  for (const [leftEnd, rightEnd] of cuts.slice(1)) {
+    if (leftEnd <= leftStart && rightEnd <= rightStart) continue;
+
+    const leftRange = { start: leftToken, end: leftToken };
+    while (leftRange.end < left.offsets.length && left.offsets[leftRange.end].start < leftEnd) leftRange.end++;
+    const rightRange = { start: rightToken, end: rightToken };
+    while (rightRange.end < right.offsets.length && right.offsets[rightRange.end].start < rightEnd) rightRange.end++;
+
+    const sameText = left.text.slice(leftStart, leftEnd) === right.text.slice(rightStart, rightEnd);
+    const kind: SegmentKind = !sameText
+      ? 'changed'
+      : leftRange.end - leftRange.start === 1 && rightRange.end - rightRange.start === 1
+        ? 'same'
+        : 'split';
+
+    segments.push({ kind, left: leftRange, right: rightRange });
+    leftToken = leftRange.end;
+    rightToken = rightRange.end;
+    leftStart = leftEnd;
+    rightStart = rightEnd;
+  }
+
+  return segments;
+}
@@ -0,0 +1,279 @@
+export type EncodingName = 'r50k_base' | 'p50k_base' | 'cl100k_base' | 'o200k_base';
+
+export interface EncodingDefinition {
+  name: EncodingName;
+  // Pre-tokenization regex, must carry the `gu` flags
+  pattern: RegExp;
+  specialTokens: Record<string, number>;
+  // Public URLs of the byte-level BPE data files and their binary build
+  files: {
+    vocab: string;
+    merges: string;
+    binary: string;
+  };
+}
+
+// JavaScript has no inline `(?i:...)` group, so the case-insensitive
+// contractions from the reference patterns are spelled out per letter
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+// GPT-2 / r50k_base / p50k_base pre-tokenization pattern
+export const R50K_PATTERN = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// cl100k_base pre-tokenization pattern (GPT-3.5 / GPT-4)
+export const CL100K_PATTERN = new RegExp(
+  [
+    CONTRACTIONS,
+    '[^\\r\\n\\p{L}\\p{N}]?\\p{L}+',
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+'
+  ].join('|'),
+  'gu'
+);
+
+// o200k_base pre-tokenization pattern (GPT-4o family)
+export const O200K_PATTERN = new RegExp(
+  [
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+'
+  ].join('|'),
+  'gu'
+);
+
+const dataFiles = (name: EncodingName) => ({
+  vocab: `/tokenizer/${name}/vocab.json`,
+  merges: `/tokenizer/${name}/merges.txt`,
+  binary: `/tokenizer/${name}/tokenizer.bin`
+});
+
+export const r50k_base: EncodingDefinition = {
+  name: 'r50k_base',
+  pattern: R50K_PATTERN,
+  files: dataFiles('r50k_base'),
+  specialTokens: {
+    '<|endoftext|>': 50256
+  }
+};
+
+export const p50k_base: EncodingDefinition = {
+  name: 'p50k_base',
+  pattern: R50K_PATTERN,
+  files: dataFiles('p50k_base'),
+  specialTokens: {
+    '<|endoftext|>': 50256
+  }
+};
+
+export const cl100k_base: EncodingDefinition = {
+  name: 'cl100k_base',
+  pattern: CL100K_PATTERN,
+  files: dataFiles('cl100k_base'),
+  specialTokens: {
+    // Chat format tokens
+    '<|im_start|>': 100264,
+    '<|im_end|>': 100265,
+    '<|im_sep|>': 100266,
+
+    // System tokens
+    '<|endoftext|>': 100257,
+    '<|fim_prefix|>': 100258,
+    '<|fim_middle|>': 100259,
+    '<|fim_suffix|>': 100260,
+
+    // Additional OpenAI tokens
+    '<|startoftext|>': 100261,
+    '<|endofprompt|>': 100262,
+    '<|startofsystem|>': 100263,
+    '<|endofsystem|>': 100267,
+    '<|startofuser|>': 100268,
+    '<|endofuser|>': 100269,
+    '<|startofassistant|>': 100270,
+    '<|endofassistant|>': 100271,
+
+    // Function calling tokens
+    '<|function_call|>': 100272,
+    '<|function_response|>': 100273,
+
+    // Tool use tokens
+    '<|tool_call|>': 100274,
+    '<|tool_response|>': 100275,
+
+    // Additional system tokens
+    '<|system|>': 100276,
+    '<|user|>': 100277,
+    '<|assistant|>': 100278,
+
+    // Code tokens
+    '<|code|>': 100279,
+    '<|/code|>': 100280,
+
+    // Thought tokens (for reasoning)
+    '<|thought|>': 100281,
+    '<|/thought|>': 100282
+  }
+};
+
+export const o200k_base: EncodingDefinition = {
+  name: 'o200k_base',
+  pattern: O200K_PATTERN,
+  files: dataFiles('o200k_base'),
+  specialTokens: {
+    '<|endoftext|>': 199999,
+    '<|endofprompt|>': 200018,
+
+    // Chat format tokens
+    '<|im_start|>': 200264,
+    '<|im_end|>': 200265,
+    '<|im_sep|>': 200266
+  }
+};
+
+export const encodings: Record<EncodingName, EncodingDefinition> = {
+  r50k_base,
+  p50k_base,
+  cl100k_base,
+  o200k_base
+};
+
+// Model name -> encoding, matched exactly first and then by prefix
+export const modelEncodings: Record<string, EncodingName> = {
+  // o200k_base
+  'gpt-4.1': 'o200k_base',
+  'gpt-4.5': 'o200k_base',
+  'gpt-4o': 'o200k_base',
+  'gpt-4o-mini': 'o200k_base',
+  'o1': 'o200k_base',
+  'o3': 'o200k_base',
+  'o4-mini': 'o200k_base',
+
+  // cl100k_base
+  'gpt-4': 'cl100k_base',
+  'gpt-4-turbo': 'cl100k_base',
+  'gpt-3.5-turbo': 'cl100k_base',
+  'text-embedding-ada-002': 'cl100k_base',
+  'text-embedding-3-small': 'cl100k_base',
+  'text-embedding-3-large': 'cl100k_base',
+
+  // p50k_base
+  'text-davinci-003': 'p50k_base',
+  'text-davinci-002': 'p50k_base',
+  'code-davinci-002': 'p50k_base',
+
+  // r50k_base
+  'text-davinci-001': 'r50k_base',
+  'davinci': 'r50k_base',
+  'curie': 'r50k_base',
+  'babbage': 'r50k_base',
+  'ada': 'r50k_base',
+  'gpt2': 'r50k_base'
+};
+
+export function isEncodingName(name: string): name is EncodingName {
+  return Object.prototype.hasOwnProperty.call(encodings, name);
+}
+
+export function getEncoding(name: EncodingName): EncodingDefinition {
+  return encodings[name];
+}
+
+// The entry of `table` for `model`, matched exactly first and then by the
+// longest prefix, so dated snapshots such as `gpt-4o-2024-08-06` use their
+// family's entry
+export function matchModelPrefix<T>(table: Record<string, T>, model: string): T | undefined {
+  const prefix = Object.keys(table)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix === undefined ? undefined : table[prefix];
+}
+
+export function getEncodingNameForModel(model: string): EncodingName {
+  const encoding = matchModelPrefix(modelEncodings, model);
+  if (!encoding) {
+    throw new Error(`Unknown model: ${model}`);
+  }
+  return encoding;
+}
+
+export function getEncodingForModel(model: string): EncodingDefinition {
+  return encodings[getEncodingNameForModel(model)];
+}
+
+export interface ModelLimits {
+  // Prompt plus completion tokens
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+// Model name -> token limits, matched with matchModelPrefix
+export const modelLimits: Record<string, ModelLimits> = {
+  // o200k_base
+  'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4.5': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'o1': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o3': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o4-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+
+  // cl100k_base
+  'gpt-4': { contextWindow: 8_192, maxOutputTokens: 8_192 },
+  'gpt-4-32k': { contextWindow: 32_768, maxOutputTokens: 32_768 },
+  'gpt-4-turbo': { contextWindow: 128_000, maxOutputTokens: 4_096 },
+  'gpt-3.5-turbo': { contextWindow: 16_385, maxOutputTokens: 4_096 },
+  'gpt-3.5-turbo-0301': { contextWindow: 4_096, maxOutputTokens: 4_096 },
+  'gpt-3.5-turbo-0613': { contextWindow: 4_096, maxOutputTokens: 4_096 },
+
+  // p50k_base
+  'text-davinci-003': { contextWindow: 4_097, maxOutputTokens: 4_097 },
+  'text-davinci-002': { contextWindow: 4_097, maxOutputTokens: 4_097 },
+  'code-davinci-002': { contextWindow: 8_001, maxOutputTokens: 8_001 },
+
+  // r50k_base
+  'text-davinci-001': { contextWindow: 2_049, maxOutputTokens: 2_049 },
+  'davinci': { contextWindow: 2_049, maxOutputTokens: 2_049 },
+  'curie': { contextWindow: 2_049, maxOutputTokens: 2_049 },
+  'babbage': { contextWindow: 2_049, maxOutputTokens: 2_049 },
+  'ada': { contextWindow: 2_049, maxOutputTokens: 2_049 },
+  'gpt2': { contextWindow: 1_024, maxOutputTokens: 1_024 }
+};
+
+export function getModelLimits(model: string): ModelLimits {
+  const limits = matchModelPrefix(modelLimits, model);
+  if (!limits) {
+    throw new Error(`No token limits known for model: ${model}`);
+  }
+  return limits;
+}
+
+export interface ContextFit extends ModelLimits {
+  promptTokens: number;
+  // Context left after the prompt and the reserved output, negative when over
+  remainingTokens: number;
+  // Longest completion the model can still produce
+  availableOutputTokens: number;
+  fits: boolean;
+}
+
+// Checks a prompt of `promptTokens` against `model`'s window, optionally
+// reserving `outputTokens` for the completion
+export function checkContextFit(promptTokens: number, model: string, outputTokens: number = 0): ContextFit {
+  const limits = getModelLimits(model);
+  const remainingTokens = limits.contextWindow - promptTokens - outputTokens;
+
+  return {
+    ...limits,
+    promptTokens,
+    remainingTokens,
+    availableOutputTokens: Math.max(0, Math.min(limits.contextWindow - promptTokens, limits.maxOutputTokens)),
+    fits: remainingTokens >= 0 && outputTokens <= limits.maxOutputTokens
+  };
+}
@@ -0,0 +1,11 @@
+// Thrown by `encode`/`tokenize` when the input contains the literal text of a
+// special token that the caller's `disallowedSpecial` policy forbids
+export class DisallowedSpecialTokenError extends Error {
+  constructor(
+    public readonly token: string,
+    public readonly index: number
+  ) {
+    super(`Disallowed special token ${token} at index ${index}`);
+    this.name = 'DisallowedSpecialTokenError';
+  }
+}
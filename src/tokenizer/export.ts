@@ -0,0 +1,78 @@
+import { base64ToBytes, bytesToBase64 } from './bytes';
+import type { TokenOffset } from './gpt-tokenizer';
+
+export interface TokenizationExport {
+  encoding: string;
+  // Chat model the text was formatted for, null for plain text
+  model: string | null;
+  text: string;
+  decodedText: string;
+  tokenIds: number[];
+  tokens: Array<TokenOffset & { token: string }>;
+}
+
+// `tokens` holds the byte-level string of each offset's token
+export function createTokenizationExport(
+  encoding: string,
+  model: string | null,
+  text: string,
+  decodedText: string,
+  offsets: TokenOffset[],
+  tokens: string[]
+): TokenizationExport {
+  return {
+    encoding,
+    model,
+    text,
+    decodedText,
+    tokenIds: offsets.map(offset => offset.id),
+    tokens: offsets.map((offset, index) => ({ ...offset, token: tokens[index] }))
+  };
+}
+
+export function toJson(data: TokenizationExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+function csvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per token, RFC 4180 quoting. `text` is the source text the token
+// covers, `token` its byte-level string.
+export function toCsv(data: TokenizationExport): string {
+  const header = ['index', 'id', 'token', 'text', 'start', 'end', 'byteStart', 'byteEnd', 'partial'];
+  const rows = data.tokens.map((token, index) =>
+    [index, token.id, token.token, token.text, token.start, token.end, token.byteStart, token.byteEnd, token.partial]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function toTypeScriptArray(tokenIds: number[], name = 'tokenIds'): string {
+  return `const ${name}: number[] = [${tokenIds.join(', ')}];`;
+}
+
+export function toPythonList(tokenIds: number[], name = 'token_ids'): string {
+  return `${name} = [${tokenIds.join(', ')}]`;
+}
+
+// Base64 of the IDs as a little-endian Uint32Array, 4 bytes per token
+export function encodeTokenIdsBase64(tokenIds: number[]): string {
+  const bytes = new Uint8Array(tokenIds.length * 4);
+  const view = new DataView(bytes.buffer);
+  tokenIds.forEach((id, index) => view.setUint32(index * 4, id, true));
+  return bytesToBase64(bytes);
+}
+
+export function decodeTokenIdsBase64(base64: string): number[] {
+  const bytes = base64ToBytes(base64);
+  if (bytes.length % 4 !== 0) {
+    throw new Error('Base64 token IDs must decode to a multiple of 4 bytes');
+  }
+
+  const view = new DataView(bytes.buffer);
+  return Array.from({ length: bytes.length / 4 }, (_, index) => view.getUint32(index * 4, true));
+}
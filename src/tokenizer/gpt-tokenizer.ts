@@ -1,192 +1,407 @@
+import { parseTokenizerBinary } from './binary';
+import { bytesToUnicode, utf8Decoder } from './bytes';
+import {
+  ChatMessage,
+  ChatSegment,
+  FormattedChat,
+  getChatFormat,
+  renderChatMessage,
+  renderReplyPrimer,
+  TruncatedChat
+} from './chat';
+import { breakLevel, ChunkOptions, defaultChunkBreaks, matchesBreak, TextChunk } from './chunk';
+import {
+  checkContextFit,
+  cl100k_base,
+  ContextFit,
+  EncodingDefinition,
+  EncodingName,
+  getEncodingNameForModel
+} from './encodings';
+import { DisallowedSpecialTokenError } from './errors';
+import { EncoderStream, TokenDecoder } from './stream';
+import {
+  renderToolDefinition,
+  renderToolDefinitions,
+  serializeToolArguments,
+  TOOL_CALL_OVERHEAD,
+  ToolCall,
+  ToolDefinition,
+  TOOLS_OVERHEAD,
+  TOOLS_SYSTEM_DISCOUNT,
+  ToolTokenCount
+} from './tools';
+
 export interface TokenizerData {
   vocab: Record<string, number>;
   merges: string[];
 }
 
+export type SpecialTokenSet = 'all' | Iterable<string>;
+
+// tiktoken-style special token policy. Allowed special tokens encode to their
+// IDs, disallowed ones throw DisallowedSpecialTokenError, and any others are
+// encoded as ordinary text. `disallowedSpecial: 'all'` means every special
+// token that is not allowed. As in tiktoken, none are allowed and all are
+// disallowed by default, so untrusted text can never smuggle in a control
+// token; callers building template text pass `allowedSpecial: 'all'`.
+export interface EncodeOptions {
+  allowedSpecial?: SpecialTokenSet;
+  disallowedSpecial?: SpecialTokenSet;
+}
+
+// Encodes special token text like any other text
+export const ordinaryText: EncodeOptions = { allowedSpecial: [], disallowedSpecial: [] };
+
+// Position of one token in the source text. Offsets are half-open ranges in
+// UTF-16 code units (`start`/`end`, as used by String.prototype.slice) and in
+// UTF-8 bytes. A token holding only some bytes of a multi-byte character is
+// `partial`, and its UTF-16 range widens to the whole character, so adjacent
+// partial tokens share that range.
+export interface TokenOffset {
+  id: number;
+  // Source text covered by `start`/`end`
+  text: string;
+  start: number;
+  end: number;
+  byteStart: number;
+  byteEnd: number;
+  partial: boolean;
+}
+
+// `head` keeps the start of the text, `tail` the end, and `middle` both ends
+// joined by `ellipsis` (default '…')
+export type TruncationStrategy = 'head' | 'tail' | 'middle';
+
+export interface TruncateOptions extends EncodeOptions {
+  strategy?: TruncationStrategy;
+  ellipsis?: string;
+}
+
+export interface TruncationResult {
+  text: string;
+  tokenCount: number;
+  truncated: boolean;
+}
+
+// A regex pre-token, or a special token, with its UTF-16 range in the text
+export interface PreToken {
+  text: string;
+  start: number;
+  end: number;
+  special: boolean;
+}
+
+export interface BpeMergeStep {
+  // Token IDs of the merged pair and of the token they form
+  pair: [number, number];
+  rank: number;
+  merged: number;
+  // Position of the pair's left symbol in the previous symbol list
+  index: number;
+  // Symbol list after this merge
+  symbols: number[];
+}
+
+export interface BpeTrace {
+  pretoken: string;
+  // Single-byte symbols the merges start from
+  initial: number[];
+  steps: BpeMergeStep[];
+  // Byte-level string of every token ID appearing in the trace
+  tokens: Record<number, string>;
+}
+
+export interface VocabEntry {
+  id: number;
+  // Byte-level string as stored in vocab.json
+  token: string;
+  // UTF-8 decoding of the token's bytes; partial characters show as U+FFFD
+  text: string;
+  byteLength: number;
+  // Rank of the merge that builds the token; null for single bytes and
+  // special tokens
+  mergeRank: number | null;
+  special: boolean;
+}
+
+// How a related entry differs from the inspected token
+export type TokenVariant = 'leadingSpace' | 'case' | 'leadingSpaceAndCase';
+
+export interface TokenDetails extends VocabEntry {
+  // Raw UTF-8 bytes of the token
+  bytes: number[];
+  leadingSpace: boolean;
+  // Other entries with the same text ignoring a leading space and letter
+  // case, sorted by ID
+  related: Array<VocabEntry & { variant: TokenVariant }>;
+}
+
+interface SpecialTokenPolicy {
+  allowed: string[];
+  disallowed: string[];
+}
+
+// UTF-8 byte length without allocating; lone surrogates count as the three
+// bytes of the U+FFFD that TextEncoder writes for them
+function utf8Length(text: string): number {
+  let length = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    length += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return length;
+}
+
+function stripLeadingSpace(text: string): string {
+  return text.startsWith(' ') ? text.slice(1) : text;
+}
+
+// Key shared by all entries that differ only by a leading space or case
+function variantKey(text: string): string {
+  return stripLeadingSpace(text).toLowerCase();
+}
+
+// Binary min-heap of numeric keys, used as the BPE merge queue
+class MinHeap {
+  private items: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: number) {
+    const items = this.items;
+    let i = items.push(value) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent] <= value) break;
+      items[i] = items[parent];
+      i = parent;
+    }
+    items[i] = value;
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+
+    let i = 0;
+    while (true) {
+      let child = 2 * i + 1;
+      if (child >= items.length) break;
+      if (child + 1 < items.length && items[child + 1] < items[child]) child++;
+      if (items[child] >= last) break;
+      items[i] = items[child];
+      i = child;
+    }
+    items[i] = last;
+    return top;
+  }
+}
+
+// Bounds on the pre-token cache, which lives as long as the tokenizer (on
+// the server, as long as the process). Long pre-tokens rarely repeat and
+// would hold the most memory, so they are not cached at all.
+const BPE_CACHE_SIZE = 20_000;
+const MAX_CACHED_PRETOKEN_LENGTH = 64;
+
 export class GPTTokenizer {
-  private vocab: Record<string, number>;
-  private bpeRanks: Record<string, number>;
-  private cache: Record<string, string[]> = {};
+  // Merge rank keyed by `left * pairBase + right` token IDs
+  private bpeRanks = new Map<number, number>();
+  // Token ID produced by the merge of each rank
+  private mergedIds: number[] = [];
+  private pairBase: number;
+  // Token ID of every single byte
+  private byteIds: number[] = [];
+  // Oldest entry first, see cacheBpe
+  private cache = new Map<string, number[]>();
   private reverseVocab: Record<number, string> = {};
+  // Built on first use by getVocabEntries and inspectToken
+  private mergeRanks?: Map<number, number>;
+  private variantIndex?: Map<string, number[]>;
 
-  // GPT'spre-tokenization regex pattern
-  private readonly pattern = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
-
-  // Complete set of special tokens used in GPT
-  private specialTokens = {
-    // Chat format tokens
-    '<|im_start|>': 100264,
-    '<|im_end|>': 100265,
-    '<|im_sep|>': 100266,
-
-    // System tokens
-    '<|endoftext|>': 100257,
-    '<|fim_prefix|>': 100258,
-    '<|fim_middle|>': 100259,
-    '<|fim_suffix|>': 100260,
-
-    // Additional OpenAI tokens
-    '<|startoftext|>': 100261,
-    '<|endofprompt|>': 100262,
-    '<|startofsystem|>': 100263,
-    '<|endofsystem|>': 100267,
-    '<|startofuser|>': 100268,
-    '<|endofuser|>': 100269,
-    '<|startofassistant|>': 100270,
-    '<|endofassistant|>': 100271,
-
-    // Function calling tokens
-    '<|function_call|>': 100272,
-    '<|function_response|>': 100273,
-
-    // Tool use tokens
-    '<|tool_call|>': 100274,
-    '<|tool_response|>': 100275,
-
-    // Additional system tokens
-    '<|system|>': 100276,
-    '<|user|>': 100277,
-    '<|assistant|>': 100278,
-
-    // Code tokens
-    '<|code|>': 100279,
-    '<|/code|>': 100280,
-
-    // Thought tokens (for reasoning)
-    '<|thought|>': 100281,
-    '<|/thought|>': 100282
-  };
+  // Pre-tokenization regex and special tokens of the active encoding
+  public readonly encodingName: EncodingName;
+  private readonly pattern: RegExp;
+  private specialTokens: Record<string, number>;
 
   // Byte-to-character mapping used by GPT
   private byteEncoder!: Record<number, string>;
   private byteDecoder!: Record<string, number>;
 
-  constructor(data: TokenizerData) {
-    this.vocab = { ...data.vocab, ...this.specialTokens };
+  constructor(data: TokenizerData, encoding: EncodingDefinition = cl100k_base) {
+    this.encodingName = encoding.name;
+    this.pattern = encoding.pattern;
+    this.specialTokens = { ...encoding.specialTokens };
 
-    // Create reverse vocab for decoding
-    Object.entries(this.vocab).forEach(([token, id]) => {
+    // Create reverse vocab for decoding in one pass over the (large) vocab,
+    // letting special tokens win on shared IDs
+    let maxId = 0;
+    for (const [token, id] of Object.entries(data.vocab)) {
       this.reverseVocab[id] = token;
-    });
+      if (id > maxId) maxId = id;
+    }
+    for (const [token, id] of Object.entries(this.specialTokens)) {
+      this.reverseVocab[id] = token;
+    }
+
+    // Initialize byte encoder/decoder
+    this.initializeByteMappings();
+    for (let b = 0; b < 256; b++) {
+      this.byteIds[b] = data.vocab[this.byteEncoder[b]];
+    }
 
-    // Create BPE ranks from merges
-    this.bpeRanks = {};
+    // Create integer BPE ranks from merges
+    this.pairBase = maxId + 1;
     data.merges.forEach((merge, index) => {
-      this.bpeRanks[merge] = index;
+      const [first, second] = merge.split(' ');
+      const left = data.vocab[first];
+      const right = data.vocab[second];
+      const merged = data.vocab[first + second];
+      if (left === undefined || right === undefined || merged === undefined) return;
+
+      this.bpeRanks.set(left * this.pairBase + right, index);
+      this.mergedIds[index] = merged;
     });
+  }
 
-    // Initialize byte encoder/decoder
-    this.initializeByteMappings();
+  // Load from the compact asset written by `scripts/build-binary.ts`
+  public static fromBinary(buffer: ArrayBuffer): GPTTokenizer {
+    const { data, encoding } = parseTokenizerBinary(buffer);
+    return new GPTTokenizer(data, encoding);
   }
 
   private initializeByteMappings() {
     // Create the byte-to-character mapping used by GPT
-    const bytes: number[] = [];
-
-    // Add printable ASCII characters
-    for (let i = 33; i <= 126; i++) {
-      bytes.push(i);
-    }
-    for (let i = 161; i <= 172; i++) {
-      bytes.push(i);
-    }
-    for (let i = 174; i <= 255; i++) {
-      bytes.push(i);
-    }
-
-  const cs = bytes.slice();
-    let n = 0;
-
-    // Add remaining bytes with offset
-    for (let b = 0; b < 256; b++) {
-      if (!bytes.includes(b)) {
-        bytes.push(b);
-        cs.push(256 + n);
-        n++;
-      }
-    }
-
-    // Create the mapping
     this.byteEncoder = {};
     this.byteDecoder = {};
 
-    cs.forEach((c, i) => {
-      const char = String.fromCharCode(c);
-      this.byteEncoder[bytes[i]] = char;
-      this.byteDecoder[char] = bytes[i];
+    bytesToUnicode().forEach((char, byte) => {
+      this.byteEncoder[byte] = char;
+      this.byteDecoder[char] = byte;
     });
   }
 
-  private getPairs(word: string[]): string[] {
-    const pairs: string[] = [];
-    for (let i = 0; i < word.length - 1; i++) {
-      pairs.push(`${word[i]} ${word[i + 1]}`);
-    }
-    return pairs;
+  private pairRank(left: number, right: number): number | undefined {
+    return this.bpeRanks.get(left * this.pairBase + right);
   }
 
-  private bpe(token: string): string[] {
-    if (this.cache[token]) {
-      return this.cache[token];
+  // Applies merges lowest rank first. Symbols form a doubly linked list over
+  // the byte positions and candidate pairs sit in a heap keyed by
+  // `rank * length + position`, so equal ranks merge left to right and each
+  // merge costs O(log n) instead of a rescan of the whole word.
+  // `onMerge`, when given, sees every merge and bypasses the cache
+  private bpe(token: string, onMerge?: (step: BpeMergeStep) => void): number[] {
+    const cached = onMerge ? undefined : this.cache.get(token);
+    if (cached) {
+      return cached;
     }
 
-    // Convert to byte-level representation
-    const utf8Bytes = Array.from(new TextEncoder().encode(token));
-    let word = utf8Bytes.map(byte => this.byteEncoder[byte]);
+    const bytes = new TextEncoder().encode(token);
+    const length = bytes.length;
+    const symbols = Array.from(bytes, byte => this.byteIds[byte]);
 
-    if (word.length <= 1) {
-      this.cache[token] = word;
-      return word;
+    if (length <= 1) {
+      this.cacheBpe(token, symbols);
+      return symbols;
     }
 
-    while (true) {
-      const pairs = this.getPairs(word);
-      if (pairs.length === 0) break;
-
-      let minPair: string | null = null;
-      let minRank = Infinity;
+    // -1 marks the ends of the list; merged-away positions get symbol -1
+    const prev = new Int32Array(length);
+    const next = new Int32Array(length);
+    for (let i = 0; i < length; i++) {
+      prev[i] = i - 1;
+      next[i] = i + 1 < length ? i + 1 : -1;
+    }
 
-      for (const pair of pairs) {
-        const rank = this.bpeRanks[pair];
-        if (rank !== undefined && rank < minRank) {
-          minRank = rank;
-          minPair = pair;
-        }
+    const queue = new MinHeap();
+    const enqueue = (position: number) => {
+      const right = next[position];
+      if (right === -1) return;
+      const rank = this.pairRank(symbols[position], symbols[right]);
+      if (rank !== undefined) {
+        queue.push(rank * length + position);
       }
+    };
 
-      if (minPair === null) break;
+    for (let i = 0; i < length - 1; i++) {
+      enqueue(i);
+    }
 
-      const [first, second] = minPair.split(' ');
-      const newWord: string[] = [];
-      let i = 0;
+    // Position 0 only ever absorbs its right neighbour, so it heads the list
+    const listSymbols = () => {
+      const word: number[] = [];
+      for (let i = 0; i !== -1; i = next[i]) {
+        word.push(symbols[i]);
+      }
+      return word;
+    };
 
-      while (i < word.length) {
-        const j = word.indexOf(first, i);
+    while (queue.size > 0) {
+      const key = queue.pop()!;
+      const rank = Math.floor(key / length);
+      const position = key - rank * length;
+      const right = next[position];
 
-        if (j === -1) {
-          newWord.push(...word.slice(i));
-          break;
-        }
+      // Skip entries made stale by an earlier merge
+      if (symbols[position] === -1 || right === -1) continue;
+      if (this.pairRank(symbols[position], symbols[right]) !== rank) continue;
+
+      const pair: [number, number] = [symbols[position], symbols[right]];
+      let index = 0;
+      if (onMerge) {
+        for (let i = 0; i !== position; i = next[i]) index++;
+      }
 
-        newWord.push(...word.slice(i, j));
+      symbols[position] = this.mergedIds[rank];
+      symbols[right] = -1;
+      next[position] = next[right];
+      if (next[right] !== -1) {
+        prev[next[right]] = position;
+      }
 
-        if (j < word.length && word[j] === first && j + 1 < word.length && word[j + 1] === second) {
-          newWord.push(first + second);
-          i = j + 2;
-        } else {
-          newWord.push(word[j]);
-          i = j + 1;
-        }
+      if (prev[position] !== -1) {
+        enqueue(prev[position]);
       }
+      enqueue(position);
 
-      word = newWord;
-      if (word.length === 1) break;
+      onMerge?.({ pair, rank, merged: symbols[position], index, symbols: listSymbols() });
     }
 
-    this.cache[token] = word;
+    const word = listSymbols();
+    this.cacheBpe(token, word);
     return word;
   }
 
+  // Evicts the oldest entry when full. Reordering entries on every hit, as
+  // an LRU would, roughly doubles the cost of a cached lookup.
+  private cacheBpe(token: string, tokenIds: number[]) {
+    if (token.length > MAX_CACHED_PRETOKEN_LENGTH) return;
+
+    this.cache.set(token, tokenIds);
+    if (this.cache.size > BPE_CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  // Replays the merges of one pre-token, lowest rank first, as encode()
+  // applies them
+  public traceBpe(pretoken: string): BpeTrace {
+    const initial = Array.from(new TextEncoder().encode(pretoken), byte => this.byteIds[byte]);
+    const steps: BpeMergeStep[] = [];
+    this.bpe(pretoken, step => steps.push(step));
+
+    const tokens: Record<number, string> = {};
+    for (const id of [...initial, ...steps.map(step => step.merged)]) {
+      tokens[id] = this.reverseVocab[id];
+    }
+
+    return { pretoken, initial, steps, tokens };
+  }
+
   // Enhanced chat message formatting with more options
   public formatChatMessages(systemText: string, userText: string, useNewFormat: boolean = false): string {
     if (useNewFormat) {
@@ -198,14 +413,270 @@ export class GPTTokenizer {
     }
   }
 
-  // Method to format function calling
+  // Renders a conversation in `model`'s chat template and counts its prompt
+  // tokens the way the API bills them, including any tool definitions sent
+  // with it. Message text is encoded as ordinary text, so special token
+  // literals inside content stay plain text.
+  public formatChat(messages: ChatMessage[], model: string, tools: ToolDefinition[] = []): FormattedChat {
+    const encoding = getEncodingNameForModel(model);
+    if (encoding !== this.encodingName) {
+      throw new Error(`Model ${model} uses ${encoding}, not ${this.encodingName}`);
+    }
+
+    const format = getChatFormat(model);
+    const count = (text: string) => this.encodeOrdinary(text).length;
+
+    const messageTokens = messages.map(message => {
+      let tokens = format.tokensPerMessage + count(message.role) + count(message.content);
+      if (message.name) {
+        tokens += count(message.name) + format.tokensPerName;
+      }
+      return tokens;
+    });
+
+    const segments: ChatSegment[] = [];
+    let text = '';
+    const append = (pieces: ChatSegment[]) => {
+      for (const piece of pieces) {
+        segments.push(piece);
+        text += piece.text;
+      }
+    };
+    const messageRanges = messages.map(message => {
+      const start = text.length;
+      append(renderChatMessage(message, format));
+      return { start, end: text.length };
+    });
+    append(renderReplyPrimer(format));
+
+    // Definitions share the system message when there is one
+    let toolTokens = 0;
+    if (tools.length > 0) {
+      toolTokens = this.countTools(tools).tokenCount;
+      if (messages.some(message => message.role === 'system')) {
+        toolTokens -= TOOLS_SYSTEM_DISCOUNT;
+      }
+    }
+
+    return {
+      text,
+      segments,
+      format,
+      tokenCount: messageTokens.reduce((sum, tokens) => sum + tokens, format.replyPrimingTokens + toolTokens),
+      messageTokens,
+      toolTokens,
+      messageRanges
+    };
+  }
+
+  // Whether the formatted conversation fits `model`'s context window with
+  // `outputTokens` reserved for the reply, and how much room is left
+  public checkChatFit(messages: ChatMessage[], model: string, outputTokens: number = 0): ContextFit {
+    return checkContextFit(this.formatChat(messages, model).tokenCount, model, outputTokens);
+  }
+
+  // Cuts `text` to at most `maxTokens` tokens. Cuts fall on token
+  // boundaries and never inside a character, and the result is re-encoded,
+  // so `tokenCount` is exact for the returned text.
+  public truncate(text: string, maxTokens: number, options: TruncateOptions = {}): TruncationResult {
+    if (!Number.isInteger(maxTokens) || maxTokens < 0) {
+      throw new Error(`Invalid token limit: ${maxTokens}`);
+    }
+
+    const offsets = this.encodeWithOffsets(text, options);
+    if (offsets.length <= maxTokens) {
+      return { text, tokenCount: offsets.length, truncated: false };
+    }
+
+    const count = (value: string) => this.encode(value, options).length;
+    // A token sharing a character with its neighbour starts at that
+    // character, and one ending inside a character ends after it, so these
+    // cuts drop split characters rather than include them
+    const head = (tokens: number) => (tokens > 0 ? text.slice(0, offsets[tokens].start) : '');
+    const tail = (tokens: number) => (tokens > 0 ? text.slice(offsets[offsets.length - tokens - 1].end) : '');
+
+    const { strategy = 'head' } = options;
+    let ellipsis = '';
+    let headTokens = strategy === 'tail' ? 0 : maxTokens;
+    let tailTokens = strategy === 'tail' ? maxTokens : 0;
+
+    if (strategy === 'middle') {
+      const available = maxTokens - count(options.ellipsis ?? '…');
+      // Without room for the ellipsis, keep the head alone
+      if (available > 0) {
+        ellipsis = options.ellipsis ?? '…';
+        headTokens = Math.ceil(available / 2);
+        tailTokens = available - headTokens;
+      }
+    }
+
+    // Re-encoding a cut pre-token or the joined ends may merge differently,
+    // so shrink until the result fits
+    for (;;) {
+      const result = head(headTokens) + ellipsis + tail(tailTokens);
+      const tokenCount = count(result);
+      if (tokenCount <= maxTokens) {
+        return { text: result, tokenCount, truncated: true };
+      }
+
+      if (headTokens >= tailTokens) {
+        headTokens--;
+      } else {
+        tailTokens--;
+      }
+    }
+  }
+
+  // Fits a conversation into `maxTokens` billed prompt tokens. The oldest
+  // non-system messages are dropped first, or cut to their most recent part
+  // when that is enough; system messages are only shortened once nothing
+  // else is left.
+  public truncateChat(messages: ChatMessage[], model: string, maxTokens: number): TruncatedChat {
+    // Message content is counted as ordinary text, see formatChat
+    const kept = [...messages];
+    let droppedMessages = 0;
+    let chat = this.formatChat(kept, model);
+
+    while (chat.tokenCount > maxTokens) {
+      const excess = chat.tokenCount - maxTokens;
+      const index = kept.findIndex(message => message.role !== 'system');
+
+      if (index !== -1) {
+        const contentTokens = this.encodeOrdinary(kept[index].content).length;
+        if (chat.messageTokens[index] <= excess || contentTokens <= excess) {
+          kept.splice(index, 1);
+          droppedMessages++;
+        } else {
+          const { text } = this.truncate(kept[index].content, contentTokens - excess, { ...ordinaryText, strategy: 'tail' });
+          kept[index] = { ...kept[index], content: text };
+        }
+      } else {
+        const systemIndex = kept.findIndex(message => message.content);
+        if (systemIndex === -1) {
+          throw new Error(`Conversation overhead exceeds ${maxTokens} tokens`);
+        }
+
+        const contentTokens = this.encodeOrdinary(kept[systemIndex].content).length;
+        const { text } = this.truncate(kept[systemIndex].content, Math.max(0, contentTokens - excess), ordinaryText);
+        kept[systemIndex] = { ...kept[systemIndex], content: text };
+      }
+
+      chat = this.formatChat(kept, model);
+    }
+
+    return {
+      messages: kept,
+      tokenCount: chat.tokenCount,
+      droppedMessages,
+      truncated: kept.length !== messages.length || kept.some((message, i) => message !== messages[i])
+    };
+  }
+
+  // Splits `text` into chunks of at most `maxTokens` tokens for embedding.
+  // Chunk token IDs are taken from the encoding of the whole text, so they
+  // concatenate back to it apart from the overlap.
+  public chunk(text: string, options: ChunkOptions): TextChunk[] {
+    const { maxTokens, overlap = 0, breakOn = defaultChunkBreaks } = options;
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      throw new Error(`Invalid chunk size: ${maxTokens}`);
+    }
+    if (!Number.isInteger(overlap) || overlap < 0 || overlap >= maxTokens) {
+      throw new Error(`Overlap must be a whole number below the chunk size, got ${overlap}`);
+    }
+
+    const offsets = this.encodeWithOffsets(text, options);
+    const preTokenStarts = new Set(this.splitPreTokens(text, options).map(preToken => preToken.start));
+
+    // Break level before token `index`, or -1 inside a character split
+    // across tokens
+    const levels = offsets.map((offset, index) => {
+      if (index === 0) return -1;
+      if (offsets[index - 1].end > offset.start) return -1;
+      return breakLevel(text, offset.start, preTokenStarts.has(offset.start));
+    });
+    const canSplit = (index: number) => index >= offsets.length || levels[index] >= 0;
+
+    const chunks: TextChunk[] = [];
+    let start = 0;
+
+    while (start < offsets.length) {
+      const limit = Math.min(start + maxTokens, offsets.length);
+      let end = limit;
+
+      if (limit < offsets.length) {
+        const minEnd = start + Math.ceil(maxTokens / 2);
+        const findBreak = (matches: (level: number) => boolean, from: number) => {
+          for (let index = limit; index >= from; index--) {
+            if (matches(levels[index])) return index;
+          }
+          return -1;
+        };
+
+        end = -1;
+        for (const preference of breakOn) {
+          end = findBreak(level => matchesBreak(level, preference), minEnd);
+          if (end !== -1) break;
+        }
+        if (end === -1) end = findBreak(level => level >= 0, start + 1);
+        // Only possible when a single character spans the whole window
+        if (end === -1) end = limit;
+      }
+
+      chunks.push({
+        text: text.slice(offsets[start].start, offsets[end - 1].end),
+        tokenIds: offsets.slice(start, end).map(offset => offset.id),
+        start: offsets[start].start,
+        end: offsets[end - 1].end
+      });
+
+      if (end >= offsets.length) break;
+
+      // Step back by at most `overlap` tokens, to a character boundary
+      let next = Math.max(end - overlap, start + 1);
+      while (next < end && !canSplit(next)) next++;
+      start = next;
+    }
+
+    return chunks;
+  }
+
+  // Tokens of tool definitions as the model sees them, with the overhead of
+  // adding them to the prompt
+  public countTools(tools: ToolDefinition[]): ToolTokenCount {
+    const text = renderToolDefinitions(tools);
+    return {
+      text,
+      tokenCount: this.encodeOrdinary(text).length + TOOLS_OVERHEAD,
+      toolTokens: tools.map(tool => this.encodeOrdinary(renderToolDefinition(tool)).length)
+    };
+  }
+
+  // Tokens of tool calls in an assistant message: the recipient and the
+  // arguments JSON of each. Throws when string arguments are not JSON.
+  public countToolCalls(calls: ToolCall[]): { tokenCount: number; callTokens: number[] } {
+    const callTokens = calls.map(call =>
+      this.encodeOrdinary(`functions.${call.name}`).length +
+      this.encodeOrdinary(serializeToolArguments(call)).length +
+      TOOL_CALL_OVERHEAD
+    );
+    return { tokenCount: callTokens.reduce((sum, tokens) => sum + tokens, 0), callTokens };
+  }
+
+  // Method to format function calling. `args` is inserted as JSON when it
+  // parses and as a string otherwise.
   public formatFunctionCall(functionName: string, args: string): string {
-    return `<|function_call|>\n{"name": "${functionName}", "arguments": ${args}}\n<|function_response|>`;
+    let parsed: unknown = args;
+    try {
+      parsed = JSON.parse(args);
+    } catch {
+      // Not JSON, keep the raw string
+    }
+    return `<|function_call|>\n${JSON.stringify({ name: functionName, arguments: parsed })}\n<|function_response|>`;
   }
 
   // Method to format tool use
   public formatToolCall(toolName: string, input: string): string {
-    return `<|tool_call|>\n{"tool": "${toolName}", "input": "${input}"}\n<|tool_response|>`;
+    return `<|tool_call|>\n${JSON.stringify({ tool: toolName, input })}\n<|tool_response|>`;
   }
 
   // Method to format code blocks
@@ -218,14 +689,50 @@ export class GPTTokenizer {
     return `<|thought|>\n${thought}\n<|/thought|>`;
   }
 
-  private splitBySpecialTokens(text: string): Array<{ text: string; isSpecial: boolean }> {
-    const specialTokenRegex = new RegExp(
-      Object.keys(this.specialTokens)
+  private resolveSpecialPolicy(options: EncodeOptions = {}): SpecialTokenPolicy {
+    const { allowedSpecial = [], disallowedSpecial = 'all' } = options;
+    const names = Object.keys(this.specialTokens);
+
+    const allowed = allowedSpecial === 'all'
+      ? names
+      : Array.from(allowedSpecial).filter(token => this.isSpecialToken(token));
+    const allowedSet = new Set(allowed);
+
+    const disallowed = (disallowedSpecial === 'all' ? names : Array.from(disallowedSpecial))
+      .filter(token => this.isSpecialToken(token) && !allowedSet.has(token));
+
+    return { allowed, disallowed };
+  }
+
+  private specialTokenRegex(tokens: string[]): RegExp | null {
+    if (tokens.length === 0) {
+      return null;
+    }
+
+    return new RegExp(
+      tokens
+        .slice()
         .sort((a, b) => b.length - a.length)
         .map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
         .join('|'),
       'g'
     );
+  }
+
+  private assertNoDisallowedSpecial(text: string, policy: SpecialTokenPolicy) {
+    const match = this.specialTokenRegex(policy.disallowed)?.exec(text);
+    if (match) {
+      throw new DisallowedSpecialTokenError(match[0], match.index);
+    }
+  }
+
+  private splitBySpecialTokens(text: string, policy: SpecialTokenPolicy): Array<{ text: string; isSpecial: boolean }> {
+    this.assertNoDisallowedSpecial(text, policy);
+
+    const specialTokenRegex = this.specialTokenRegex(policy.allowed);
+    if (!specialTokenRegex) {
+      return text ? [{ text, isSpecial: false }] : [];
+    }
 
     const parts: Array<{ text: string; isSpecial: boolean }> = [];
     let lastIndex = 0;
@@ -257,83 +764,173 @@ export class GPTTokenizer {
     return parts;
   }
 
-  public encode(text: string): number[] {
-    const parts = this.splitBySpecialTokens(text);
-    const allTokens: string[] = [];
+  // The pieces encode() runs BPE on, in order
+  public splitPreTokens(text: string, options?: EncodeOptions): PreToken[] {
+    const preTokens: PreToken[] = [];
+    let partStart = 0;
+
+    for (const part of this.splitBySpecialTokens(text, this.resolveSpecialPolicy(options))) {
+      if (part.isSpecial) {
+        preTokens.push({ text: part.text, start: partStart, end: partStart + part.text.length, special: true });
+      } else {
+        for (const match of part.text.matchAll(this.pattern)) {
+          if (!match[0]) continue;
+          const start = partStart + match.index!;
+          preTokens.push({ text: match[0], start, end: start + match[0].length, special: false });
+        }
+      }
+      partStart += part.text.length;
+    }
+
+    return preTokens;
+  }
+
+  private appendOrdinary(text: string, tokenIds: number[]) {
+    for (const match of text.matchAll(this.pattern)) {
+      if (match[0]) {
+        for (const id of this.bpe(match[0])) {
+          tokenIds.push(id);
+        }
+      }
+    }
+  }
+
+  public encode(text: string, options?: EncodeOptions): number[] {
+    const parts = this.splitBySpecialTokens(text, this.resolveSpecialPolicy(options));
+    const tokenIds: number[] = [];
 
     for (const part of parts) {
       if (part.isSpecial) {
-        allTokens.push(part.text);
+        tokenIds.push(this.specialTokens[part.text]);
       } else if (part.text) {
+        this.appendOrdinary(part.text, tokenIds);
+      }
+    }
+
+    return tokenIds;
+  }
+
+  // Encodes special token text like any other text, for untrusted input
+  public encodeOrdinary(text: string): number[] {
+    return this.encode(text, ordinaryText);
+  }
+
+  // Encodes the part of `text` that more input cannot change. The last two
+  // pre-tokens may still merge (o200k_base attaches a contraction such as
+  // `'t` to the preceding word, so `don` + `'` becomes `don't`), and a
+  // trailing `<|...` may still become a special token, so these are left
+  // unconsumed.
+  private encodeStablePrefix(text: string, policy: SpecialTokenPolicy): { tokenIds: number[]; consumed: number } {
+    let limit = text.length;
+    for (const special of [...policy.allowed, ...policy.disallowed]) {
+      for (let length = Math.min(special.length - 1, text.length); length > 0; length--) {
+        if (special.startsWith(text.slice(text.length - length))) {
+          limit = Math.min(limit, text.length - length);
+          break;
+        }
+      }
+    }
+
+    const parts = this.splitBySpecialTokens(text.slice(0, limit), policy);
+    const tokenIds: number[] = [];
+    let consumed = 0;
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+
+      if (part.isSpecial) {
+        tokenIds.push(this.specialTokens[part.text]);
+      } else if (i < parts.length - 1) {
+        this.appendOrdinary(part.text, tokenIds);
+      } else {
+        // Re-matching a truncated slice could change lookaheads such as
+        // `\s+(?!\S)`, so the matches found here are encoded directly
         const matches = Array.from(part.text.matchAll(this.pattern));
-        for (const match of matches) {
-          if (match[0]) {
-            const bpeTokens = this.bpe(match[0]);
-            allTokens.push(...bpeTokens);
+        for (const match of matches.slice(0, -2)) {
+          for (const id of this.bpe(match[0])) {
+            tokenIds.push(id);
           }
         }
+        consumed += matches.length > 2 ? matches[matches.length - 2].index! : 0;
+        break;
       }
+
+      consumed += part.text.length;
     }
 
-    return allTokens.map(token => {
-      const id = this.vocab[token];
-      if (id === undefined) {
-        console.warn(`Unknown token: ${JSON.stringify(token)}`);
-        return this.vocab['<|endoftext|>'] || 0;
+    return { tokenIds, consumed };
+  }
+
+  public createEncoderStream(options?: EncodeOptions): EncoderStream {
+    const policy = this.resolveSpecialPolicy(options);
+    let pending = '';
+
+    return {
+      write: chunk => {
+        pending += chunk;
+        const { tokenIds, consumed } = this.encodeStablePrefix(pending, policy);
+        pending = pending.slice(consumed);
+        return tokenIds;
+      },
+      end: () => {
+        const tokenIds = this.encode(pending, options);
+        pending = '';
+        return tokenIds;
       }
-      return id;
-    });
+    };
   }
 
-  public decode(tokenIds: number[]): string {
-    const tokens = tokenIds.map(id => {
+  // Raw UTF-8 bytes of the tokens. A multi-byte character may be split
+  // across tokens, so only the concatenated bytes decode cleanly.
+  public decodeBytes(tokenIds: number[]): Uint8Array {
+    const bytes: number[] = [];
+    const textEncoder = new TextEncoder();
+
+    for (const id of tokenIds) {
       const token = this.reverseVocab[id];
       if (token === undefined) {
         console.warn(`Unknown token ID: ${id}`);
-        return '';
+        continue;
       }
-      return token;
-    });
 
-    // Handle special tokens separately
-    let result = '';
-    for (const token of tokens) {
-      if (Object.keys(this.specialTokens).includes(token)) {
-        result += token;
-      } else {
-        // Convert byte-encoded token back to bytes
-        const bytes: number[] = [];
-        for (const char of token) {
-          const byte = this.byteDecoder[char];
-          if (byte !== undefined) {
-            bytes.push(byte);
-          }
-        }
+      if (this.isSpecialToken(token)) {
+        bytes.push(...textEncoder.encode(token));
+        continue;
+      }
 
-        try {
-          result += new TextDecoder().decode(new Uint8Array(bytes));
-        } catch {
-          result += token; // Fallback
+      // Convert byte-encoded token back to bytes
+      for (const char of token) {
+        const byte = this.byteDecoder[char];
+        if (byte !== undefined) {
+          bytes.push(byte);
         }
       }
     }
 
-    return result;
+    return new Uint8Array(bytes);
   }
 
-  public tokenize(text: string): string[] {
-    const parts = this.splitBySpecialTokens(text);
+  public decode(tokenIds: number[]): string {
+    return utf8Decoder().decode(this.decodeBytes(tokenIds));
+  }
+
+  public createTokenDecoder(): TokenDecoder {
+    return new TokenDecoder(this);
+  }
+
+  public tokenize(text: string, options?: EncodeOptions): string[] {
+    const parts = this.splitBySpecialTokens(text, this.resolveSpecialPolicy(options));
     const allTokens: string[] = [];
 
     for (const part of parts) {
       if (part.isSpecial) {
         allTokens.push(part.text);
       } else if (part.text) {
-        const matches = Array.from(part.text.matchAll(this.pattern));
-        for (const match of matches) {
+        for (const match of part.text.matchAll(this.pattern)) {
           if (match[0]) {
-            const bpeTokens = this.bpe(match[0]);
-            allTokens.push(...bpeTokens);
+            for (const id of this.bpe(match[0])) {
+              allTokens.push(this.reverseVocab[id]);
+            }
           }
         }
       }
@@ -342,6 +939,194 @@ export class GPTTokenizer {
     return allTokens;
   }
 
+  public encodeWithOffsets(text: string, options?: EncodeOptions): TokenOffset[] {
+    const parts = this.splitBySpecialTokens(text, this.resolveSpecialPolicy(options));
+    const offsets: TokenOffset[] = [];
+    let position = 0;
+    let bytePosition = 0;
+
+    // Adds the tokens of `segment`, which starts at UTF-16 index `start`
+    const addSegment = (segment: string, start: number, tokenIds: number[], byteLengths: number[]) => {
+      bytePosition += utf8Length(text.slice(position, start));
+
+      // For every byte of the segment: the UTF-16 range of its character
+      const charStart: number[] = [];
+      const charEnd: number[] = [];
+      const boundary: boolean[] = [];
+      let unit = 0;
+      for (const char of segment) {
+        const length = utf8Length(char);
+        boundary[charStart.length] = true;
+        for (let i = 0; i < length; i++) {
+          charStart.push(unit);
+          charEnd.push(unit + char.length);
+        }
+        unit += char.length;
+      }
+      boundary[charStart.length] = true;
+
+      let byte = 0;
+      tokenIds.forEach((id, index) => {
+        const byteEnd = byte + byteLengths[index];
+        const tokenStart = start + charStart[byte];
+        const tokenEnd = start + charEnd[byteEnd - 1];
+
+        offsets.push({
+          id,
+          text: text.slice(tokenStart, tokenEnd),
+          start: tokenStart,
+          end: tokenEnd,
+          byteStart: bytePosition + byte,
+          byteEnd: bytePosition + byteEnd,
+          partial: !boundary[byte] || !boundary[byteEnd]
+        });
+        byte = byteEnd;
+      });
+
+      bytePosition += byte;
+      position = start + segment.length;
+    };
+
+    let partStart = 0;
+    for (const part of parts) {
+      if (part.isSpecial) {
+        addSegment(part.text, partStart, [this.specialTokens[part.text]], [utf8Length(part.text)]);
+      } else {
+        for (const match of part.text.matchAll(this.pattern)) {
+          if (match[0]) {
+            const tokenIds = this.bpe(match[0]);
+            addSegment(
+              match[0],
+              partStart + match.index!,
+              tokenIds,
+              tokenIds.map(id => this.reverseVocab[id].length)
+            );
+          }
+        }
+      }
+      partStart += part.text.length;
+    }
+
+    return offsets;
+  }
+
+  // Tokens of a formatted chat as the model receives them, see ChatSegment.
+  // Offsets and pre-tokens refer to the joined text.
+  public tokenizeSegments(segments: ChatSegment[]): { tokens: string[]; offsets: TokenOffset[]; preTokens: PreToken[] } {
+    const tokens: string[] = [];
+    const offsets: TokenOffset[] = [];
+    const preTokens: PreToken[] = [];
+    let start = 0;
+    let byteStart = 0;
+
+    for (const segment of segments) {
+      const options: EncodeOptions = segment.template ? { allowedSpecial: 'all' } : ordinaryText;
+
+      for (const token of this.tokenize(segment.text, options)) {
+        tokens.push(token);
+      }
+      for (const offset of this.encodeWithOffsets(segment.text, options)) {
+        offsets.push({
+          ...offset,
+          start: offset.start + start,
+          end: offset.end + start,
+          byteStart: offset.byteStart + byteStart,
+          byteEnd: offset.byteEnd + byteStart
+        });
+      }
+      for (const preToken of this.splitPreTokens(segment.text, options)) {
+        preTokens.push({ ...preToken, start: preToken.start + start, end: preToken.end + start });
+      }
+
+      start += segment.text.length;
+      byteStart += utf8Length(segment.text);
+    }
+
+    return { tokens, offsets, preTokens };
+  }
+
+  // Every vocab entry in ID order, for browsing the vocabulary
+  public getVocabEntries(): VocabEntry[] {
+    const decoder = utf8Decoder();
+    return Object.keys(this.reverseVocab)
+      .map(key => this.vocabEntry(Number(key), decoder))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Vocab entry of one token with its bytes and the entries that differ from
+  // it only by a leading space or capitalization
+  public inspectToken(id: number): TokenDetails {
+    if (this.reverseVocab[id] === undefined) {
+      throw new Error(`Unknown token ID: ${id}`);
+    }
+
+    const decoder = utf8Decoder();
+    const entry = this.vocabEntry(id, decoder);
+    const leadingSpace = entry.text.startsWith(' ');
+    const variants = entry.special ? [] : (this.getVariantIndex().get(variantKey(entry.text)) ?? []);
+
+    const related = variants
+      .filter(other => other !== id)
+      .map(other => {
+        const relatedEntry = this.vocabEntry(other, decoder);
+        const spaceDiffers = relatedEntry.text.startsWith(' ') !== leadingSpace;
+        const caseDiffers = stripLeadingSpace(relatedEntry.text) !== stripLeadingSpace(entry.text);
+        const variant: TokenVariant =
+          spaceDiffers && caseDiffers ? 'leadingSpaceAndCase' : spaceDiffers ? 'leadingSpace' : 'case';
+        return { ...relatedEntry, variant };
+      });
+
+    return {
+      ...entry,
+      bytes: Array.from(this.decodeBytes([id])),
+      leadingSpace,
+      related
+    };
+  }
+
+  private vocabEntry(id: number, decoder: TextDecoder): VocabEntry {
+    if (!this.mergeRanks) {
+      this.mergeRanks = new Map();
+      this.mergedIds.forEach((merged, rank) => {
+        if (!this.mergeRanks!.has(merged)) this.mergeRanks!.set(merged, rank);
+      });
+    }
+
+    const token = this.reverseVocab[id];
+    const bytes = this.decodeBytes([id]);
+    return {
+      id,
+      token,
+      text: decoder.decode(bytes),
+      byteLength: bytes.length,
+      mergeRank: this.mergeRanks.get(id) ?? null,
+      special: this.isSpecialToken(token)
+    };
+  }
+
+  // Ordinary token IDs grouped by variantKey. Tokens holding partial
+  // characters are left out, as their U+FFFD text would match each other.
+  private getVariantIndex(): Map<string, number[]> {
+    if (this.variantIndex) return this.variantIndex;
+
+    const decoder = utf8Decoder();
+    const index = new Map<string, number[]>();
+    for (const key of Object.keys(this.reverseVocab)) {
+      const id = Number(key);
+      if (this.isSpecialToken(this.reverseVocab[id])) continue;
+
+      const text = decoder.decode(this.decodeBytes([id]));
+      if (text.includes('\uFFFD')) continue;
+
+      const ids = index.get(variantKey(text));
+      if (ids) ids.push(id);
+      else index.set(variantKey(text), [id]);
+    }
+
+    this.variantIndex = index;
+    return index;
+  }
+
   // Utility method to get all special tokens
   public getSpecialTokens(): Record<string, number> {
     return { ...this.specialTokens };
@@ -349,6 +1134,10 @@ export class GPTTokenizer {
 
   // Method to check if a token is special
   public isSpecialToken(token: string): boolean {
-    return token in this.specialTokens;
+    return Object.prototype.hasOwnProperty.call(this.specialTokens, token);
+  }
+
+  public isValidTokenId(id: number): boolean {
+    return this.reverseVocab[id] !== undefined;
   }
 }
@@ -0,0 +1,34 @@
+import { EncodingName, getEncoding } from './encodings';
+import { GPTTokenizer } from './gpt-tokenizer';
+
+// One in-flight or resolved tokenizer per encoding, loaded on first use
+const tokenizers = new Map<EncodingName, Promise<GPTTokenizer>>();
+
+export function parseMerges(mergesText: string): string[] {
+  return mergesText
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('#version'));
+}
+
+export async function fetchTokenizerBinary(name: EncodingName): Promise<ArrayBuffer> {
+  const response = await fetch(getEncoding(name).files.binary);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load tokenizer files for ${name}`);
+  }
+
+  return response.arrayBuffer();
+}
+
+export function loadTokenizer(name: EncodingName): Promise<GPTTokenizer> {
+  let tokenizer = tokenizers.get(name);
+
+  if (!tokenizer) {
+    tokenizer = fetchTokenizerBinary(name).then(buffer => GPTTokenizer.fromBinary(buffer));
+    // Drop failed loads so the next call retries
+    tokenizer.catch(() => tokenizers.delete(name));
+    tokenizers.set(name, tokenizer);
+  }
+
+  return tokenizer;
+}
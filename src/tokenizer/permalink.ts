@@ -0,0 +1,88 @@
+import { base64ToBytes, bytesToBase64 } from './bytes';
+import { ChatMessage, chatRoles } from './chat';
+import { EncodingName, isEncodingName } from './encodings';
+
+// Demo state carried in a share link. The link keeps it in the URL fragment,
+// so it never reaches the server: `#s=` followed by the base64url of the
+// deflated JSON.
+
+export interface PermalinkState {
+  messages: ChatMessage[];
+  encoding: EncodingName;
+  model: string;
+  view: string;
+}
+
+const HASH_PREFIX = '#s=';
+const VERSION = 1;
+
+// Longer URLs work in browsers but get cut off by chat apps and issue
+// trackers, which would break the link without any error
+export const MAX_PERMALINK_LENGTH = 8000;
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// URL-safe base64 without padding, which atob accepts back
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  return base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+// The URL fragment for `state`, starting with '#'
+export async function encodePermalinkHash(state: PermalinkState): Promise<string> {
+  const json = JSON.stringify({
+    v: VERSION,
+    messages: state.messages.map(({ role, content }) => ({ role, content })),
+    encoding: state.encoding,
+    model: state.model,
+    view: state.view
+  });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return HASH_PREFIX + toBase64Url(compressed);
+}
+
+// The state of a fragment from encodePermalinkHash, or null for fragments
+// that are not share links. Throws if the link is damaged.
+export async function decodePermalinkHash(hash: string): Promise<PermalinkState | null> {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+
+  let data: Record<string, unknown>;
+  try {
+    const bytes = await transform(fromBase64Url(hash.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The link is incomplete or damaged');
+  }
+
+  if (typeof data !== 'object' || data === null || data.v !== VERSION) {
+    throw new Error('The link was made by an unsupported version of this page');
+  }
+
+  const { messages, encoding, model, view } = data;
+  if (typeof encoding !== 'string' || !isEncodingName(encoding)) {
+    throw new Error(`Unknown encoding: ${encoding}`);
+  }
+  if (typeof model !== 'string' || typeof view !== 'string') {
+    throw new Error('The link has no model or view');
+  }
+  if (
+    !Array.isArray(messages) ||
+    !messages.every(
+      message =>
+        typeof message === 'object' &&
+        message !== null &&
+        chatRoles.includes(message.role) &&
+        typeof message.content === 'string'
+    )
+  ) {
+    throw new Error('The link has invalid messages');
+  }
+
+  return { messages, encoding, model, view };
+}
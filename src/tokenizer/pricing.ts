@@ -0,0 +1,100 @@
+import { matchModelPrefix } from './encodings';
+
+// Prices in USD per million tokens. `cachedInput` is omitted for models
+// without prompt caching, whose cached tokens bill at the input rate.
+export interface ModelPrice {
+  input: number;
+  cachedInput?: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// OpenAI list prices; edit or import a table to keep them current
+export const defaultPrices: PriceTable = {
+  'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'o1': { input: 15, cachedInput: 7.5, output: 60 },
+  'o3': { input: 2, cachedInput: 0.5, output: 8 },
+  'o4-mini': { input: 1.1, cachedInput: 0.275, output: 4.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+export interface TokenUsage {
+  // All prompt tokens, including the cached ones
+  inputTokens: number;
+  cachedInputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface CostEstimate {
+  inputCost: number;
+  cachedInputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+// Matched with matchModelPrefix, so dated snapshots such as
+// gpt-4o-2024-08-06 use their family's price
+export function getModelPrice(table: PriceTable, model: string): ModelPrice | undefined {
+  return matchModelPrefix(table, model);
+}
+
+export function estimateCost(price: ModelPrice, usage: TokenUsage): CostEstimate {
+  const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+  const perToken = (rate: number) => rate / 1_000_000;
+
+  const inputCost = (usage.inputTokens - cachedInputTokens) * perToken(price.input);
+  const cachedInputCost = cachedInputTokens * perToken(price.cachedInput ?? price.input);
+  const outputCost = (usage.outputTokens ?? 0) * perToken(price.output);
+
+  return {
+    inputCost,
+    cachedInputCost,
+    outputCost,
+    totalCost: inputCost + cachedInputCost + outputCost
+  };
+}
+
+// More decimals for amounts below a cent, so small prompts do not show $0
+export function formatUsd(value: number): string {
+  return `$${value < 0.01 ? value.toFixed(6) : value.toFixed(4)}`;
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Parses and validates a table written by serializePriceTable
+export function parsePriceTable(json: string): PriceTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Price table is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Price table must be an object keyed by model name');
+  }
+
+  const table: PriceTable = {};
+  for (const [model, entry] of Object.entries(data)) {
+    const { input, cachedInput, output } = (entry ?? {}) as Record<string, unknown>;
+    if (!isRate(input) || !isRate(output) || (cachedInput !== undefined && !isRate(cachedInput))) {
+      throw new Error(`Invalid price for ${model}: rates must be non-negative numbers`);
+    }
+    table[model] = cachedInput === undefined ? { input, output } : { input, cachedInput, output };
+  }
+
+  return table;
+}
+
+export function serializePriceTable(table: PriceTable): string {
+  return JSON.stringify(table, null, 2);
+}
@@ -0,0 +1,65 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { ApiError, ApiErrorBody, ApiHandler, asApiError, apiLimits, runApiRequest } from './api';
+import { EncodingName, getEncoding } from './encodings';
+import { GPTTokenizer } from './gpt-tokenizer';
+
+// Server-side counterpart of loader.ts: one tokenizer per encoding for the
+// whole process, read from the same binary asset the demo fetches
+const tokenizers = new Map<EncodingName, Promise<GPTTokenizer>>();
+
+export function loadServerTokenizer(name: EncodingName): Promise<GPTTokenizer> {
+  let tokenizer = tokenizers.get(name);
+
+  if (!tokenizer) {
+    tokenizer = readFile(join(process.cwd(), 'public', getEncoding(name).files.binary)).then(file =>
+      GPTTokenizer.fromBinary(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer)
+    );
+    // Drop failed loads so the next request retries
+    tokenizer.catch(() => tokenizers.delete(name));
+    tokenizers.set(name, tokenizer);
+  }
+
+  return tokenizer;
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+  const tooLarge = new ApiError(413, 'payload_too_large', `Request body exceeds ${apiLimits.maxBodyBytes} bytes`);
+  if (Number(request.headers.get('content-length')) > apiLimits.maxBodyBytes) {
+    throw tooLarge;
+  }
+
+  const text = await request.text();
+  if (Buffer.byteLength(text) > apiLimits.maxBodyBytes) {
+    throw tooLarge;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+function errorResponse(status: number, error: ApiErrorBody['error']): Response {
+  return Response.json({ error } satisfies ApiErrorBody, { status });
+}
+
+// Route handler answering POST requests with `handler`, see api.ts for the
+// request and error format
+export function apiRoute<T>(handler: ApiHandler<T>): (request: Request) => Promise<Response> {
+  return async request => {
+    try {
+      const body = await readJsonBody(request);
+      return Response.json(await runApiRequest(body, handler, loadServerTokenizer));
+    } catch (err) {
+      const apiError = asApiError(err);
+      if (apiError) {
+        return errorResponse(apiError.status, { code: apiError.code, message: apiError.message });
+      }
+
+      console.error('Tokenizer API error:', err);
+      return errorResponse(500, { code: 'internal_error', message: 'Internal server error' });
+    }
+  };
+}
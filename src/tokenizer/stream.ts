@@ -0,0 +1,50 @@
+import { utf8Decoder } from './bytes';
+import type { GPTTokenizer } from './gpt-tokenizer';
+
+// Stateful encoder for text that arrives in chunks. Token IDs emitted across
+// all `write` calls plus `end` equal `encode` of the concatenated text.
+export interface EncoderStream {
+  // Returns the tokens that later input can no longer change
+  write(chunk: string): number[];
+  // Flushes the held-back tail; the stream can be reused afterwards
+  end(): number[];
+}
+
+// Adapts an encoder stream for WHATWG stream pipelines (browsers, Node 18+),
+// emitting one batch of token IDs per input chunk
+export function toTransformStream(encoder: EncoderStream): TransformStream<string, number[]> {
+  return new TransformStream<string, number[]>({
+    transform(chunk, controller) {
+      const tokenIds = encoder.write(chunk);
+      if (tokenIds.length > 0) {
+        controller.enqueue(tokenIds);
+      }
+    },
+    flush(controller) {
+      const tokenIds = encoder.end();
+      if (tokenIds.length > 0) {
+        controller.enqueue(tokenIds);
+      }
+    }
+  });
+}
+
+// Decodes token IDs as they arrive from a model stream. Bytes of a character
+// split across tokens are held until the character is complete, so no
+// U+FFFD replacement characters appear at token boundaries.
+export class TokenDecoder {
+  private decoder = utf8Decoder();
+
+  constructor(private tokenizer: Pick<GPTTokenizer, 'decodeBytes'>) {}
+
+  // Returns the text completed by these tokens, possibly empty
+  public write(tokenIds: number | number[]): string {
+    const ids = typeof tokenIds === 'number' ? [tokenIds] : tokenIds;
+    return this.decoder.decode(this.tokenizer.decodeBytes(ids), { stream: true });
+  }
+
+  // Flushes any incomplete trailing bytes as replacement characters
+  public end(): string {
+    return this.decoder.decode();
+  }
+}
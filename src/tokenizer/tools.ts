@@ -0,0 +1,190 @@
+// The subset of JSON Schema that shapes how a tool is shown to the model
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  [keyword: string]: unknown;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: JsonSchema;
+}
+
+export interface ToolCall {
+  name: string;
+  // JSON text as returned by the API, or the parsed object
+  arguments: string | Record<string, unknown>;
+}
+
+export interface ToolTokenCount {
+  // Tool definitions as the model reads them, see renderToolDefinitions
+  text: string;
+  tokenCount: number;
+  // Parallel to the input tools
+  toolTokens: number[];
+}
+
+// Tokens wrapping the rendered definitions into the system prompt, and the
+// ones saved when an existing system message is reused for them
+export const TOOLS_OVERHEAD = 9;
+export const TOOLS_SYSTEM_DISCOUNT = 4;
+// Message and recipient tokens around each call's arguments
+export const TOOL_CALL_OVERHEAD = 3;
+
+function formatType(schema: JsonSchema, indent: number): string {
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case 'string':
+      return schema.enum ? schema.enum.map(value => JSON.stringify(value)).join(' | ') : 'string';
+    case 'number':
+    case 'integer':
+      return schema.enum ? schema.enum.map(value => JSON.stringify(value)).join(' | ') : 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'object':
+      return ['{', formatProperties(schema, indent + 2), '}'].join('\n');
+    case 'array':
+      return schema.items ? `${formatType(schema.items, indent)}[]` : 'any[]';
+    default:
+      return 'any';
+  }
+}
+
+function formatProperties(schema: JsonSchema, indent: number): string {
+  const required = new Set(schema.required ?? []);
+  const lines: string[] = [];
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (property.description && indent < 2) {
+      lines.push(`// ${property.description}`);
+    }
+    lines.push(`${name}${required.has(name) ? '' : '?'}: ${formatType(property, indent)},`);
+  }
+
+  return lines.map(line => ' '.repeat(indent) + line).join('\n');
+}
+
+function renderTool(tool: ToolDefinition): string[] {
+  const lines: string[] = [];
+  if (tool.description) {
+    lines.push(`// ${tool.description}`);
+  }
+
+  if (Object.keys(tool.parameters?.properties ?? {}).length > 0) {
+    lines.push(`type ${tool.name} = (_: {`, formatProperties(tool.parameters!, 0), '}) => any;');
+  } else {
+    lines.push(`type ${tool.name} = () => any;`);
+  }
+  lines.push('');
+
+  return lines;
+}
+
+// Renders tool definitions as the TypeScript-like namespace the API adds to
+// the system prompt
+export function renderToolDefinitions(tools: ToolDefinition[]): string {
+  return ['namespace functions {', '', ...tools.flatMap(renderTool), '} // namespace functions'].join('\n');
+}
+
+// Renders one definition as it appears inside the namespace
+export function renderToolDefinition(tool: ToolDefinition): string {
+  return renderTool(tool).join('\n');
+}
+
+// Arguments as the JSON text the model writes; strings must already be JSON
+export function serializeToolArguments(call: ToolCall): string {
+  if (typeof call.arguments !== 'string') {
+    return JSON.stringify(call.arguments);
+  }
+
+  try {
+    JSON.parse(call.arguments);
+  } catch {
+    throw new Error(`Arguments of tool call ${call.name} are not valid JSON`);
+  }
+  return call.arguments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks the keywords renderToolDefinitions reads, at every nesting level.
+// Returns a problem described relative to `path`, or null.
+function checkSchema(schema: unknown, path: string): string | null {
+  if (!isObject(schema)) {
+    return `${path} must be a JSON Schema object`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    return `${path}.enum must be an array`;
+  }
+  if (schema.required !== undefined && !(Array.isArray(schema.required) && schema.required.every(name => typeof name === 'string'))) {
+    return `${path}.required must be an array of strings`;
+  }
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) {
+      return `${path}.properties must be an object`;
+    }
+    for (const [name, property] of Object.entries(schema.properties)) {
+      const problem = checkSchema(property, `${path}.properties.${name}`);
+      if (problem) return problem;
+    }
+  }
+  if (schema.items !== undefined) {
+    return checkSchema(schema.items, `${path}.items`);
+  }
+  return null;
+}
+
+interface RawTool {
+  name?: unknown;
+  description?: unknown;
+  parameters?: unknown;
+}
+
+// Accepts a single tool or an array, each either a bare definition or in
+// the API's `{ type: 'function', function: {...} }` wrapper
+export function parseToolDefinitions(json: string): ToolDefinition[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Tool definitions are not valid JSON');
+  }
+
+  return validateToolDefinitions(data);
+}
+
+// Same as parseToolDefinitions, for already parsed JSON
+export function validateToolDefinitions(data: unknown): ToolDefinition[] {
+  const entries = (Array.isArray(data) ? data : [data]) as Array<(RawTool & { type?: unknown; function?: RawTool }) | null>;
+
+  return entries.map((entry, index): ToolDefinition => {
+    const tool = entry?.type === 'function' && entry.function ? entry.function : entry;
+
+    if (typeof tool?.name !== 'string' || !tool.name) {
+      throw new Error(`Tool ${index + 1} has no name`);
+    }
+    if (tool.description !== undefined && typeof tool.description !== 'string') {
+      throw new Error(`Description of tool ${tool.name} must be a string`);
+    }
+    const problem = tool.parameters === undefined ? null : checkSchema(tool.parameters, 'parameters');
+    if (problem) {
+      throw new Error(`Tool ${tool.name}: ${problem}`);
+    }
+
+    return {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as JsonSchema | undefined
+    };
+  });
+}
@@ -0,0 +1,95 @@
+import {
+  WorkerParams,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResult,
+  WorkerTaskName
+} from './worker-protocol';
+
+interface PendingRequest {
+  resolve: (result: WorkerResult<WorkerTaskName>) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// Promise-based client for the tokenizer worker. Aborting a request removes
+// it from the worker queue if it has not started; either way its result is
+// dropped and the promise rejects with an AbortError.
+export class TokenizerWorkerClient {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./worker.ts', import.meta.url));
+
+    this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      // Cancelled or superseded requests are no longer pending
+      if (!request) return;
+
+      if ('progress' in response) {
+        request.onProgress?.(response.progress);
+        return;
+      }
+
+      this.pending.delete(response.id);
+      if (response.ok) {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    });
+
+    this.worker.addEventListener('error', event => {
+      const error = new Error(event.message || 'Tokenizer worker failed');
+      this.pending.forEach(request => request.reject(error));
+      this.pending.clear();
+    });
+  }
+
+  public request<T extends WorkerTaskName>(
+    type: T,
+    params: WorkerParams<T>,
+    signal?: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<WorkerResult<T>> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Request aborted', 'AbortError'));
+        return;
+      }
+
+      const id = ++this.nextId;
+      this.pending.set(id, {
+        resolve: result => resolve(result as WorkerResult<T>),
+        reject,
+        onProgress
+      });
+
+      signal?.addEventListener('abort', () => {
+        if (this.pending.delete(id)) {
+          this.post({ id, type: 'cancel' });
+          reject(new DOMException('Request aborted', 'AbortError'));
+        }
+      }, { once: true });
+
+      this.post({ id, type, params } as WorkerRequest);
+    });
+  }
+
+  public terminate() {
+    this.worker.terminate();
+    this.pending.forEach(request => request.reject(new Error('Tokenizer worker terminated')));
+    this.pending.clear();
+  }
+
+  private post(request: WorkerRequest) {
+    this.worker.postMessage(request);
+  }
+}
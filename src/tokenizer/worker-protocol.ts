@@ -0,0 +1,90 @@
+import type { ChatMessage } from './chat';
+import type { ChunkOptions, TextChunk } from './chunk';
+import type { AlignedSegment } from './compare';
+import type { EncodingName } from './encodings';
+import type { ToolDefinition, ToolTokenCount } from './tools';
+import type { BpeTrace, PreToken, TokenDetails, TokenOffset, VocabEntry } from './gpt-tokenizer';
+
+export interface ChatAnalysis {
+  encoding: EncodingName;
+  // null when the model does not use `encoding` and the messages were
+  // joined into a plain prompt instead
+  model: string | null;
+  formattedText: string;
+  // Prompt tokens as billed, and per message including overhead
+  tokenCount: number;
+  messageTokens: number[];
+  messageRanges: Array<{ start: number; end: number }>;
+  // Tool definitions as rendered for the model, null without tools or for
+  // plain prompts. `toolTokens` is their share of `tokenCount`.
+  tools: ToolTokenCount | null;
+  toolTokens: number;
+  tokens: string[];
+  tokenIds: number[];
+  // Parallel to `tokens`
+  special: boolean[];
+  // Parallel to `tokens`: index of the message a token starts in, or -1
+  messageIndex: number[];
+  offsets: TokenOffset[];
+  preTokens: PreToken[];
+  decodedText: string;
+  isVerified: boolean;
+}
+
+// One pane of the compare view
+export interface CompareSide {
+  encoding: EncodingName;
+  text: string;
+  offsets: TokenOffset[];
+}
+
+// Every task the tokenizer worker runs, with its parameters and result
+export interface WorkerTasks {
+  load: {
+    params: { encoding: EncodingName };
+    result: { encoding: EncodingName; specialTokens: Record<string, number> };
+  };
+  analyzeChat: {
+    params: { encoding: EncodingName; model: string; messages: ChatMessage[]; tools: ToolDefinition[] };
+    result: ChatAnalysis;
+  };
+  chunk: {
+    params: { encoding: EncodingName; text: string; options: ChunkOptions };
+    result: { encoding: EncodingName; chunks: TextChunk[] };
+  };
+  traceBpe: {
+    params: { encoding: EncodingName; pretoken: string };
+    result: BpeTrace & { encoding: EncodingName };
+  };
+  vocab: {
+    params: { encoding: EncodingName };
+    result: { encoding: EncodingName; entries: VocabEntry[] };
+  };
+  inspectToken: {
+    params: { encoding: EncodingName; id: number };
+    result: TokenDetails & { encoding: EncodingName };
+  };
+  // Counts a whole document as ordinary text, reporting progress as it goes
+  countTokens: {
+    params: { encoding: EncodingName; text: string };
+    result: { encoding: EncodingName; tokenCount: number };
+  };
+  compare: {
+    params: { left: { encoding: EncodingName; text: string }; right: { encoding: EncodingName; text: string } };
+    result: { left: CompareSide; right: CompareSide; segments: AlignedSegment[] };
+  };
+}
+
+export type WorkerTaskName = keyof WorkerTasks;
+export type WorkerParams<T extends WorkerTaskName> = WorkerTasks[T]['params'];
+export type WorkerResult<T extends WorkerTaskName> = WorkerTasks[T]['result'];
+
+export type WorkerRequest =
+  | { [T in WorkerTaskName]: { id: number; type: T; params: WorkerParams<T> } }[WorkerTaskName]
+  | { id: number; type: 'cancel' };
+
+// Long tasks may post `progress` (0 to 1) before their result
+export type WorkerResponse =
+  | { id: number; ok: true; result: WorkerResult<WorkerTaskName> }
+  | { id: number; ok: false; error: string }
+  | { id: number; progress: number };
@@ -0,0 +1,182 @@
+import type { ChatMessage } from './chat';
+import { alignTokenStreams } from './compare';
+import { getEncodingNameForModel } from './encodings';
+import { GPTTokenizer, ordinaryText } from './gpt-tokenizer';
+import { loadTokenizer } from './loader';
+import {
+  WorkerParams,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResult,
+  WorkerTaskName
+} from './worker-protocol';
+
+type TaskHandlers = {
+  [T in WorkerTaskName]: (params: WorkerParams<T>, progress: (fraction: number) => void) => Promise<WorkerResult<T>>;
+};
+
+// Characters encoded between progress reports of countTokens
+const COUNT_SLICE_LENGTH = 65536;
+
+// Completion-only encodings have no chat template, so their messages are
+// sent as one prompt separated by blank lines, all of it ordinary text
+function formatPlainPrompt(tokenizer: GPTTokenizer, messages: ChatMessage[]) {
+  let text = '';
+  const messageRanges = messages.map((message, index) => {
+    if (index > 0) text += '\n\n';
+    const start = text.length;
+    text += message.content;
+    return { start, end: text.length };
+  });
+
+  return {
+    text,
+    segments: [{ text, template: false }],
+    tokenCount: tokenizer.encodeOrdinary(text).length,
+    messageTokens: messages.map(message => tokenizer.encodeOrdinary(message.content).length),
+    toolTokens: 0,
+    messageRanges
+  };
+}
+
+const tasks: TaskHandlers = {
+  async load({ encoding }) {
+    const tokenizer = await loadTokenizer(encoding);
+    return { encoding, specialTokens: tokenizer.getSpecialTokens() };
+  },
+
+  async analyzeChat({ encoding, model, messages, tools }) {
+    const tokenizer = await loadTokenizer(encoding);
+    const chatModel = getEncodingNameForModel(model) === encoding ? model : null;
+    const chat = chatModel
+      ? tokenizer.formatChat(messages, chatModel, tools)
+      : formatPlainPrompt(tokenizer, messages);
+
+    // Encoded piece by piece like the billed counts, so special token text
+    // typed into a message stays ordinary text
+    const formattedText = chat.text;
+    const { tokens, offsets, preTokens } = tokenizer.tokenizeSegments(chat.segments);
+    const tokenIds = offsets.map(offset => offset.id);
+    const decodedText = tokenizer.decode(tokenIds);
+
+    return {
+      encoding,
+      model: chatModel,
+      formattedText,
+      tokenCount: chat.tokenCount,
+      messageTokens: chat.messageTokens,
+      messageRanges: chat.messageRanges,
+      tools: chatModel && tools.length > 0 ? tokenizer.countTools(tools) : null,
+      toolTokens: chat.toolTokens,
+      tokens,
+      tokenIds,
+      special: tokens.map(token => tokenizer.isSpecialToken(token)),
+      messageIndex: offsets.map(offset =>
+        chat.messageRanges.findIndex(range => offset.start >= range.start && offset.start < range.end)
+      ),
+      offsets,
+      preTokens,
+      decodedText,
+      isVerified: formattedText === decodedText
+    };
+  },
+
+  async chunk({ encoding, text, options }) {
+    const tokenizer = await loadTokenizer(encoding);
+    // Pasted documents are data, so special token text stays ordinary text
+    return { encoding, chunks: tokenizer.chunk(text, { ...options, ...ordinaryText }) };
+  },
+
+  async traceBpe({ encoding, pretoken }) {
+    const tokenizer = await loadTokenizer(encoding);
+    return { encoding, ...tokenizer.traceBpe(pretoken) };
+  },
+
+  async vocab({ encoding }) {
+    const tokenizer = await loadTokenizer(encoding);
+    return { encoding, entries: tokenizer.getVocabEntries() };
+  },
+
+  async inspectToken({ encoding, id }) {
+    const tokenizer = await loadTokenizer(encoding);
+    return { encoding, ...tokenizer.inspectToken(id) };
+  },
+
+  async countTokens({ encoding, text }, progress) {
+    const tokenizer = await loadTokenizer(encoding);
+    // The stream yields the same tokens as encoding the text at once
+    const stream = tokenizer.createEncoderStream(ordinaryText);
+
+    let tokenCount = 0;
+    for (let start = 0; start < text.length; start += COUNT_SLICE_LENGTH) {
+      tokenCount += stream.write(text.slice(start, start + COUNT_SLICE_LENGTH)).length;
+      progress(Math.min(1, (start + COUNT_SLICE_LENGTH) / text.length));
+    }
+    tokenCount += stream.end().length;
+
+    return { encoding, tokenCount };
+  },
+
+  async compare({ left, right }) {
+    const [leftSide, rightSide] = await Promise.all(
+      [left, right].map(async ({ encoding, text }) => {
+        const tokenizer = await loadTokenizer(encoding);
+        return { encoding, text, offsets: tokenizer.encodeWithOffsets(text, ordinaryText) };
+      })
+    );
+    return { left: leftSide, right: rightSide, segments: alignTokenStreams(leftSide, rightSide) };
+  }
+};
+
+// Requests run one at a time from this queue, so a cancel message that
+// arrives while another request is running can still drop queued work
+const queue: Exclude<WorkerRequest, { type: 'cancel' }>[] = [];
+let running = false;
+
+function respond(response: WorkerResponse) {
+  postMessage(response);
+}
+
+async function drain() {
+  if (running) return;
+  running = true;
+
+  let request;
+  while ((request = queue.shift())) {
+    try {
+      const { id } = request;
+      const handler = tasks[request.type] as (
+        params: unknown,
+        progress: (fraction: number) => void
+      ) => Promise<WorkerResult<WorkerTaskName>>;
+      const result = await handler(request.params, progress => respond({ id, progress }));
+      respond({ id, ok: true, result });
+    } catch (err) {
+      respond({
+        id: request.id,
+        ok: false,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+
+    // Yield so pending cancel messages are handled before the next request
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  running = false;
+}
+
+addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    const index = queue.findIndex(queued => queued.id === request.id);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+    return;
+  }
+
+  queue.push(request);
+  drain();
+});